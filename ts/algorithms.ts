@@ -1,4 +1,5 @@
 /// <reference path="./complex.ts"/>
+/// <reference path="./fft.ts"/>
 module algorithms {
 
     enum Parity {
@@ -10,11 +11,9 @@ module algorithms {
         if (!condition) throw message || "Assertion failed"
     }
 
-    // Helper function to fill an array with zeros
-    function zeros(amt: number): number[] {
-        let result = []
-        for (let i = 0; i < amt; i++) result.push(0)
-        return result
+    // Helper function to make an array of zeros
+    function zeros(amt: number): FloatArray {
+        return new Float64Array(amt)
     }
 
     // Represents the left and right turning points of a potential
@@ -24,28 +23,44 @@ module algorithms {
         right: number
     }
 
+    // Represents a range of mesh indexes, including both ends
+    // The range is empty if left > right
+    export interface MeshRegion {
+        left: number,
+        right: number
+    }
+
+    // A region where the particle is classically allowed (its energy is above the potential),
+    // or classically forbidden (its energy is at or below the potential)
+    export interface ClassicalRegion extends MeshRegion {
+        allowed: boolean
+    }
+
     // Given a function F, represented as samples in the given ComplexArray,
     // modify it in-place such that the integral of |F|^2 over all space
-    // is 1
-    function normalizeComplexFunction(samples: ComplexArray, dx: number) {
+    // is 1. Returns the norm that F was divided by.
+    function normalizeComplexFunction(samples: ComplexArray, dx: number): number {
         // norm is sum of dx * |vals|**2
+        const res = samples.res, ims = samples.ims
         let norm = 0
         for (let i = 0; i < samples.length; i++) {
-            norm += samples.at(i).magnitudeSquared()
+            norm += res[i] * res[i] + ims[i] * ims[i]
         }
         norm *= dx
         norm = Math.sqrt(norm)
         if (norm === 0) norm = 1 // handle the case of a zero function by pretending the norm is 1
         const normRecip = 1.0 / norm
         for (let i = 0; i < samples.length; i++) {
-            samples.set(i, samples.at(i).multipliedByReal(normRecip))
+            res[i] *= normRecip
+            ims[i] *= normRecip
         }
+        return norm
     }
 
     // Given a real function F, represented as samples in the given vals array,
     // modify it in place such that the integral of |F|^2 over all space
     // is 1
-    function normalizeRealFunction(samples: number[], dx: number) {
+    function normalizeRealFunction(samples: FloatArray, dx: number) {
         // norm is sum of dx * vals**2
         let norm = 0
         for (let i = 0; i < samples.length; i++) {
@@ -61,13 +76,14 @@ module algorithms {
     }
 
     // Given a complex function F, represented as samples in the given ComplexArray,
-    // modify it in-place such that the first nonzero value on the left is positive 
-    function normalizeSign(vals: ComplexArray, leftTurningPoint: number) {
+    // modify it in-place such that the first nonzero value on the left is positive
+    // Returns the sign that the function was multiplied by (1 or -1)
+    function normalizeSign(vals: ComplexArray, leftTurningPoint: number): number {
         // make it positive on the left
         let wantsSignFlip = false
         const eps = 1.0E-16
         for (let i = leftTurningPoint; i + 1 < vals.length; i++) {
-            let re = vals.at(i).re
+            const re = vals.res[i]
             if (Math.abs(re) > eps) {
                 wantsSignFlip = re < 0
                 break
@@ -75,25 +91,27 @@ module algorithms {
         }
         if (wantsSignFlip) {
             for (let i = 0; i < vals.length; i++) {
-                vals.set(i, vals.at(i).multipliedByReal(-1))
+                vals.res[i] = -vals.res[i]
+                vals.ims[i] = -vals.ims[i]
             }
         }
+        return wantsSignFlip ? -1 : 1
     }
 
-    interface IntegratorInput {
+    export interface IntegratorInput {
         potentialMesh: number[]
         energy: number
         maxX: number
     }
     
     // Naive reference function
-    // Given a list of real values in the space domain, separated by dx,
+    // Given a list of complex values in the space domain, separated by dx,
     // computes a list of complex values in the frequency domain, separated by dfreq
     // Note this is NOT the Discrete Fourier Transform. The DFT decomposes the function into
     // frequencies that are integer multiples of the fundamental frequency. But this decomposes
     // a function into non-integer multiples.
-    // That is why we cannot use FFT techniques.
-    export function fourierTransformNaive(spaceValues: FloatArray, center: number, dx: number, dfreq: number): ComplexArray {
+    // That is why we cannot use the FFT directly; see fourierTransform() for how we get around that.
+    export function fourierTransformNaive(spaceValues: ComplexArray, center: number, dx: number, dfreq: number): ComplexArray {
         const length = spaceValues.length
         assert(length > 0 && center < length, "center out of bounds")
         let freqValues = ComplexArray.zeros(length)
@@ -102,88 +120,143 @@ module algorithms {
             const p = (arrayIdx - center) * dfreq
             let phi = new Complex(0, 0)
             for (let i = 0; i < length; i++) {
-                const spaceValue = spaceValues[i]
                 const x = (i - center) * dx
-                phi.addToSelf(Complex.exponential(-p * x).multipliedByReal(spaceValue))
+                phi.addToSelf(Complex.exponential(-p * x).multiplied(spaceValues.at(i)))
             }
             freqValues.set(arrayIdx, phi.multipliedByReal(multiplier))
         }
         return freqValues
     }
 
+    // The parts of the chirp-z transform that depend only on the length and alpha = dx * dfreq
+    // The chirp is w(t) = e^(-i * alpha * t^2 / 2), for t in [0, length). It is even in t.
+    // The kernel is the FFT of conj(w), laid out circularly for convolution.
+    interface ChirpZPlan {
+        length: number
+        alpha: number
+        size: number
+        chirp: ComplexArray
+        kernel: ComplexArray
+    }
+
+    // We typically transform many arrays with the same length and spacing, so cache the last plan
+    let chirpZPlanCache: ChirpZPlan = null
+
+    function chirpZPlan(length: number, alpha: number): ChirpZPlan {
+        if (chirpZPlanCache && chirpZPlanCache.length === length && chirpZPlanCache.alpha === alpha) {
+            return chirpZPlanCache
+        }
+        // The convolution must not wrap around, so the size must be at least 2 * length - 1
+        const size = nextPowerOfTwo(2 * length - 1)
+        let chirp = ComplexArray.zeros(length)
+        for (let t = 0; t < length; t++) {
+            const angle = -alpha * t * t / 2
+            chirp.res[t] = Math.cos(angle)
+            chirp.ims[t] = Math.sin(angle)
+        }
+        let kernel = ComplexArray.zeros(size)
+        for (let t = 0; t < length; t++) {
+            kernel.res[t] = chirp.res[t]
+            kernel.ims[t] = -chirp.ims[t]
+            if (t > 0) {
+                kernel.res[size - t] = chirp.res[t]
+                kernel.ims[size - t] = -chirp.ims[t]
+            }
+        }
+        fft(kernel.res, kernel.ims, false)
+        chirpZPlanCache = {length: length, alpha: alpha, size: size, chirp: chirp, kernel: kernel}
+        return chirpZPlanCache
+    }
+
     // Optimized variant that computes the Fourier transform of the given space values
-    // See fourierTransformNaive() for comments 
-    export function fourierTransform(spaceValues: FloatArray, centerIndex: number, dx: number, dfreq: number): ComplexArray {
+    // See fourierTransformNaive() for comments
+    // Our frequencies are not those of the DFT, but we can still use the FFT via the chirp-z
+    // (Bluestein) transform. With x = (j - center) * dx and p = (k - center) * dfreq, we want
+    //    phi[k] = sum over j of psi[j] * e^(-i * p * x)
+    // Let alpha = dx * dfreq, a = k - center and b = j - center. Then p * x = alpha * a * b, and
+    //    a * b = (a^2 + b^2 - (a - b)^2) / 2
+    // so with the chirp w(t) = e^(-i * alpha * t^2 / 2),
+    //    phi[k] = w(a) * sum over j of (psi[j] * w(b)) * conj(w(k - j))
+    // The sum is a convolution, which we compute with FFTs. This is O(n log n) instead of O(n^2).
+    export function fourierTransform(spaceValues: ComplexArray, centerIndex: number, dx: number, dfreq: number): ComplexArray {
         const length = spaceValues.length
         assert(length > 0 && centerIndex < length, "center out of bounds")
-        let freqValues = ComplexArray.zeros(length)
-        let freqValuesRe = freqValues.res
-        let freqValuesIm = freqValues.ims
-
-        // Initial space value at each iteration
-        const startX = -centerIndex * dx
-
+        const plan = chirpZPlan(length, dx * dfreq)
+        const chirpRe = plan.chirp.res, chirpIm = plan.chirp.ims
+
+        // Multiply by the chirp, and zero-pad
+        let work = ComplexArray.zeros(plan.size)
+        let workRe = work.res, workIm = work.ims
+        for (let j = 0; j < length; j++) {
+            const t = Math.abs(j - centerIndex)
+            const re = spaceValues.res[j], im = spaceValues.ims[j]
+            workRe[j] = re * chirpRe[t] - im * chirpIm[t]
+            workIm[j] = re * chirpIm[t] + im * chirpRe[t]
+        }
+
+        // Convolve with the conjugate chirp
+        fft(workRe, workIm, false)
+        const kernelRe = plan.kernel.res, kernelIm = plan.kernel.ims
+        for (let i = 0; i < plan.size; i++) {
+            const re = workRe[i] * kernelRe[i] - workIm[i] * kernelIm[i]
+            workIm[i] = workRe[i] * kernelIm[i] + workIm[i] * kernelRe[i]
+            workRe[i] = re
+        }
+        fft(workRe, workIm, true)
+
+        // Multiply by the chirp again, and by our overall coefficient
         // We have an overall multiplier of 1/sqrt(2*pi), which goes outside the integral
         // We also have a Riemann sum, of width dx, which can be pulled out too
-        // Compute the overall multiplier
-        const coefficient = dx / Math.sqrt(2 * Math.PI) 
-        
-        let freq = -centerIndex * dfreq
-        for (let freqIndex = 0; freqIndex < length; freqIndex++, freq += dfreq) {
-            // {phiReal, phiImaginary} are the computed values of phi(freq)
-            // for each spaceIndex, we want to compute:
-            //    e^(-i * freq * spaceLocation) * spaceValues[spaceIndex]
-            // The freq is constant for this iteration, and we run through the space positions
-            // The difference between successive spaceLocations is dx
-            // Thus we have
-            //    e^(-i * freq * (spaceLocation + dx))
-            //    = e^(-i * freq * spaceLocation) * e^(-i * freq * dx)
-            // so we can step through the successive exponentials by multiplying by e^(-i * freq * dx)
-            // which is of course cos(-freq * dx) + i sin(-freq * dx)  
-
-            // Initial value of the exponential term in the expression
-            let exponentialReal = Math.cos(-startX * freq)
-            let exponentialImag = Math.sin(-startX * freq)
-
-            // Step values
-            const stepReal = Math.cos(-dx * freq)
-            const stepImag = Math.sin(-dx * freq)
-            
-            // Value of Riemann sum (i.e. phi) at our current frequency (freq)
-            let phiReal = 0
-            let phiImag = 0
-
-            for (let spaceIndex = 0; spaceIndex < length; spaceIndex++) {
-                // Pull out the spaceValue, aka psi(x). We only use the real part.
-                // Multiply that by our current exponential and add that to phi
-                const spaceValue = spaceValues[spaceIndex]
-                phiReal += spaceValue * exponentialReal
-                phiImag += spaceValue * exponentialImag
-
-                // Step our exponential
-                // Note that we are multiplying two complex numbers
-                // the formula is {c1.re*c2.re - c1.im*c2.im, c1.re*c2.im + c2.re*c1.im}
-                const tmpReal = exponentialReal * stepReal - exponentialImag * stepImag
-                exponentialImag = exponentialReal * stepImag + stepReal * exponentialImag
-                exponentialReal = tmpReal
-            }
-
-            // Multiply by coefficient and store
-            freqValuesRe[freqIndex] = coefficient * phiReal
-            freqValuesIm[freqIndex] = coefficient * phiImag
+        const coefficient = dx / Math.sqrt(2 * Math.PI)
+        let freqValues = ComplexArray.zeros(length)
+        for (let k = 0; k < length; k++) {
+            const t = Math.abs(k - centerIndex)
+            freqValues.res[k] = coefficient * (workRe[k] * chirpRe[t] - workIm[k] * chirpIm[t])
+            freqValues.ims[k] = coefficient * (workRe[k] * chirpIm[t] + workIm[k] * chirpRe[t])
         }
         return freqValues
     }
 
+    // Computes the momentum-space wavefunction for the given position-space values, separated by dx
+    // The frequencies are separated by dx * scale, and centered at centerIndex
+    // The result is normalized in the same way as the position-space values
+    export function momentumSpaceValues(spaceValues: ComplexArray, centerIndex: number, dx: number, scale: number): ComplexArray {
+        let freqValues = fourierTransform(spaceValues, centerIndex, dx, dx * scale)
+        normalizeComplexFunction(freqValues, dx)
+        return freqValues
+    }
+
     // Wraps up metadata about a wavefunction
-    interface WavefunctionMetadata {
+    export interface WavefunctionMetadata {
         energy: number
         leftTurningPoint: number
         rightTurningPoint: number
         leftDerivativeDiscontinuity: number 
         rightDerivativeDiscontinuity: number
     }
-    
+
+    // Derivative discontinuities ("kinks") of a normalized wavefunction, at or below which we consider it smooth,
+    // and at or above which we consider it as far from stationary as it gets
+    const SmoothKink = 1.0E-5
+    const SevereKink = 1.0E-1
+
+    // Returns whether the given derivative discontinuity is big enough to count as a kink
+    export function isKink(derivativeDiscontinuity: number): boolean {
+        return Math.abs(derivativeDiscontinuity) > SmoothKink
+    }
+
+    // Returns how close the wavefunction with the given metadata is to being stationary (an eigenstate)
+    // Stitching at an energy that is not allowed leaves kinks at the turning points
+    // This is 1 if there are no kinks, falling to 0 at a severe kink
+    // Kinks span many orders of magnitude as the energy moves away from an allowed one, so this falls logarithmically
+    export function stationarity(md: WavefunctionMetadata): number {
+        const kink = Math.max(Math.abs(md.leftDerivativeDiscontinuity), Math.abs(md.rightDerivativeDiscontinuity))
+        if (kink <= SmoothKink) {
+            return 1
+        }
+        return Math.max(0, 1 - Math.log(kink / SmoothKink) / Math.log(SevereKink / SmoothKink))
+    }
+
     // Represents a solution to the time-independent Schrodinger equation
     // This is represented as a list of complex values, separated by dx,
     // with some metadata
@@ -204,28 +277,48 @@ module algorithms {
             return this.values.at(x).multiplied(Complex.exponential(nEt))
         }
         
+        // Returns a copy scaled so that the integral of |psi|^2 over the mesh is 1
+        // This is useful for states that are not normalizable, like scattering states
+        normalized(): TimeIndependentWavefunction {
+            let values = this.values.slice()
+            normalizeComplexFunction(values, this.dx)
+            return new TimeIndependentWavefunction(values, this.dx, this.md)
+        }
+        
         // Takes the Fourier transform, returning a new wavefunction
         fourierTransform(center: number, scale: number): TimeIndependentWavefunction {
-            let freqValues = fourierTransform(this.values.res, center, this.dx, this.dx * scale)
-            normalizeComplexFunction(freqValues, this.dx)
+            const freqValues = momentumSpaceValues(this.values, center, this.dx, scale)
             return new TimeIndependentWavefunction(freqValues, this.dx, this.md)
         }
 
     }
 
     // Represents a generalized solution to the Schrodinger equation, as a sum of time-independent solutions
-    // Assumes that the time-independent solutions are present with equal weights; this is a wholly artificial
-    // assumption for the purposes of the visualizer. In practice the weights can be arbitrary.
+    // Each component is weighted by a complex coefficient. If no coefficients are given, the components
+    // are present with equal weights. The coefficients are normalized so that the sum of their squared
+    // magnitudes is 1, which makes the sum normalized when the components are orthonormal (e.g. eigenstates).
     export class Wavefunction {
         public length: number
         public dx: number
-        constructor(public components: TimeIndependentWavefunction[]) {
+        public coefficients: Complex[]
+        constructor(public components: TimeIndependentWavefunction[], coefficients?: Complex[]) {
             assert(components.length > 0, "Empty components in Wavefunction")
             this.length = components[0].values.length
             this.components.forEach((psi: TimeIndependentWavefunction) => {
                 assert(psi.values.length === this.length, "Not all lengths the same")
             })
             this.dx = this.components[0].dx
+
+            // Default to equal weights
+            if (! coefficients) {
+                coefficients = components.map(() => new Complex(1, 0))
+            }
+            assert(coefficients.length === components.length, "Wrong number of coefficients")
+
+            // Normalize the coefficients
+            let norm = Math.sqrt(coefficients.reduce((sum, c) => sum + c.magnitudeSquared(), 0))
+            if (norm === 0) norm = 1 // handle the case of all zero weights by pretending the norm is 1
+            this.coefficients = coefficients.map((c) => c.multipliedByReal(1.0 / norm))
         }
 
         // Returns the complex value at a given location for a given time
@@ -233,37 +326,83 @@ module algorithms {
         valueAt(x: number, time: number): Complex {
             assert(x === +x && x === (x | 0), "Non-integer passed to valueAt")
             let result = new Complex(0, 0)
-            this.components.forEach((psi: TimeIndependentWavefunction) => {
-                result.addToSelf(psi.valueAt(x, time))
+            this.components.forEach((psi: TimeIndependentWavefunction, idx: number) => {
+                result.addToSelf(psi.valueAt(x, time).multiplied(this.coefficients[idx]))
             })
-            // apply equal weights
-            result.re /= this.components.length
-            result.im /= this.components.length
             return result
         }
 
-        // Returns the Fourier transform of the given wavefunction
-        // Because the Fourier transform is linear, this is just the Fourier transform
-        // of the sum of our components
-        public fourierTransform(center: number, scale: number): Wavefunction {
-            let fourierComps = this.components.map((comp) => comp.fourierTransform(center, scale))
-            return new Wavefunction(fourierComps)
+        // Returns the expectation value of the energy
+        // This assumes our components are orthonormal energy eigenstates
+        public meanEnergy(): number {
+            let result = 0
+            this.components.forEach((psi: TimeIndependentWavefunction, idx: number) => {
+                result += this.coefficients[idx].magnitudeSquared() * psi.md.energy
+            })
+            return result
+        }
+
+        // Computes our complex values over the whole mesh at the given time, storing them in result
+        // This is much cheaper than calling valueAt() for each index: each component's time
+        // dependence is a single complex factor, which we compute once. Nothing is allocated.
+        // Returns result, for convenience
+        public evaluate(time: number, result: ComplexArray): ComplexArray {
+            assert(result.length === this.length, "Result has wrong length")
+            const length = this.length
+            const res = result.res, ims = result.ims
+            for (let i = 0; i < length; i++) {
+                res[i] = 0
+                ims[i] = 0
+            }
+            for (let idx = 0; idx < this.components.length; idx++) {
+                // factor = coefficient * e^(-iEt)
+                const psi = this.components[idx]
+                const coefficient = this.coefficients[idx]
+                const nEt = - psi.md.energy * time
+                const cos = Math.cos(nEt), sin = Math.sin(nEt)
+                const factorRe = coefficient.re * cos - coefficient.im * sin
+                const factorIm = coefficient.re * sin + coefficient.im * cos
+                const valuesRe = psi.values.res, valuesIm = psi.values.ims
+                for (let i = 0; i < length; i++) {
+                    res[i] += factorRe * valuesRe[i] - factorIm * valuesIm[i]
+                    ims[i] += factorRe * valuesIm[i] + factorIm * valuesRe[i]
+                }
+            }
+            return result
+        }
+
+        // Returns our complex values over the whole mesh at the given time, in a new array
+        public valuesAt(time: number): ComplexArray {
+            return this.evaluate(time, ComplexArray.zeros(this.length))
+        }
+
+        // Returns the Fourier transform of our instantaneous state at the given time
+        // We transform the sum rather than each component, so that the result is normalized as a whole,
+        // like our values; transforming components separately would normalize each on its own
+        public fourierTransform(time: number, center: number, scale: number): ComplexArray {
+            return momentumSpaceValues(this.valuesAt(time), center, this.dx, scale)
         }
 
     }
 
     // Given two ResolvedWavefunction, computes an average weighted by the discontinuities in their derivatives
     // The average is chosen so as to cancel the left discontinuity
+    // The returned metadata reflects the discontinuities of the average, not of its inputs
     export function averageWavefunctionsToCancelDiscontinuities(first: TimeIndependentWavefunction, second: TimeIndependentWavefunction): TimeIndependentWavefunction {
         assert(first.values.length === second.values.length, "Wavefunctions have different lengths")
         const bad1 = first.md.leftDerivativeDiscontinuity
         const bad2 = second.md.leftDerivativeDiscontinuity
         const eps = .01
         let values: ComplexArray
+        let leftDiscont: number, rightDiscont: number
         if (Math.abs(bad1) < eps) {
             values = first.values.slice()
+            leftDiscont = bad1
+            rightDiscont = first.md.rightDerivativeDiscontinuity
         } else if (Math.abs(bad2) < eps) {
             values = second.values.slice()
+            leftDiscont = bad2
+            rightDiscont = second.md.rightDerivativeDiscontinuity
         } else {
             // we want bad1 + k * bad2 = 0
             // so k = -bad1 / bad2
@@ -271,35 +410,89 @@ module algorithms {
             const length = first.values.length
             values = ComplexArray.zeros(length)
             for (let i = 0; i < length; i++) {
-                values.set(i, first.values.at(i).added(second.values.at(i).multipliedByReal(k)))
+                values.res[i] = first.values.res[i] + k * second.values.res[i]
+                values.ims[i] = first.values.ims[i] + k * second.values.ims[i]
             }
-            normalizeComplexFunction(values, first.dx)
-        }
-        normalizeSign(values, first.md.leftTurningPoint)
-        return new TimeIndependentWavefunction(values, first.dx, first.md)
+            // The discontinuities are linear in the wavefunction, so they mix and scale the same way
+            const norm = normalizeComplexFunction(values, first.dx)
+            leftDiscont = (bad1 + k * bad2) / norm
+            rightDiscont = (first.md.rightDerivativeDiscontinuity + k * second.md.rightDerivativeDiscontinuity) / norm
+        }
+        const sign = normalizeSign(values, first.md.leftTurningPoint)
+        let md: WavefunctionMetadata = {
+            energy: first.md.energy,
+            leftTurningPoint: first.md.leftTurningPoint,
+            rightTurningPoint: first.md.rightTurningPoint,
+            leftDerivativeDiscontinuity: sign * leftDiscont,
+            rightDerivativeDiscontinuity: sign * rightDiscont
+        }
+        return new TimeIndependentWavefunction(values, first.dx, md)
     }
 
-    export function classicalTurningPoints(potential: number[], energy: number): TurningPoints {
-        const length = potential.length
-        let left, right
-        for (left = 0; left < length; left++) {
-            if (energy > potential[left]) {
-                break
-            }
-        }
-        for (right = length - 1; right >= left; right--) {
-            if (energy > potential[right]) {
-                break
+    // Returns the classically allowed and forbidden regions of the potential at the given energy,
+    // from left to right. These alternate, and together they cover the mesh.
+    // A potential may have several allowed regions at an energy, like the two wells of TwoSquareWells
+    export function classicalRegions(potential: number[], energy: number): ClassicalRegion[] {
+        let result: ClassicalRegion[] = []
+        for (let i = 0; i < potential.length; i++) {
+            const allowed = energy > potential[i]
+            const last = result.length > 0 ? result[result.length - 1] : null
+            if (last && last.allowed === allowed) {
+                last.right = i
+            } else {
+                result.push({left: i, right: i, allowed: allowed})
             }
         }
-        // if we meet, it means the energy is above the potential: scattering state
-        // assume we have an infinite square well box in that case 
-        if (left > right) {
-            left = 0
-            right = length - 1
+        return result
+    }
+
+    // Returns just the classically forbidden regions of the potential at the given energy
+    export function forbiddenRegions(potential: number[], energy: number): ClassicalRegion[] {
+        return classicalRegions(potential, energy).filter((region) => ! region.allowed)
+    }
+
+    // Returns the classical turning points of the given regions: the outer edges of the allowed regions
+    // This is where we stitch our Numerov solutions together
+    // If nothing is allowed, we assume we have an infinite square well box
+    export function turningPointsOfRegions(regions: ClassicalRegion[], length: number): TurningPoints {
+        const allowed = regions.filter((region) => region.allowed)
+        if (allowed.length === 0) {
+            return { left: 0, right: length - 1 }
         }
-        return { left: left, right: right }
+        return { left: allowed[0].left, right: allowed[allowed.length - 1].right }
+    }
 
+    export function classicalTurningPoints(potential: number[], energy: number): TurningPoints {
+        return turningPointsOfRegions(classicalRegions(potential, energy), potential.length)
+    }
+
+    // Returns the region around the given index that is free of hard walls
+    // Bound state wavefunctions vanish outside of it
+    // If the index is itself in a wall, the region is empty
+    function regionBetweenWalls(potential: number[], index: number): MeshRegion {
+        let left = index, right = index - 1
+        if (! isHardWall(potential[index])) {
+            while (left > 0 && ! isHardWall(potential[left - 1])) left--
+            right = index
+            while (right + 1 < potential.length && ! isHardWall(potential[right + 1])) right++
+        }
+        return {left: left, right: right}
+    }
+
+    // Returns the highest energy at which a state of the given potential is bound
+    // Without hard walls, this is the maximum of the potential. Hard walls bind every state,
+    // so then it is the highest energy the mesh can represent: the largest finite potential,
+    // plus the largest kinetic energy of the finite-difference Hamiltonian, 2 / dx^2
+    export function boundStateCeiling(potential: number[], dx: number): number {
+        let finiteMax = -Infinity, hasWalls = false
+        for (let i = 0; i < potential.length; i++) {
+            if (isHardWall(potential[i])) {
+                hasWalls = true
+            } else {
+                finiteMax = Math.max(finiteMax, potential[i])
+            }
+        }
+        return hasWalls ? finiteMax + 2 / (dx * dx) : finiteMax
     }
 
     // A ResolvableWavefunction is the output of our Numerov method
@@ -307,17 +500,15 @@ module algorithms {
     // "Resolving" referes to the process of joining these two wavefunctions at a given point
     // Note that these wavefunctions are real-valued
     class ResolvableWavefunction {
-        valuesFromCenter: number[] = []
-        valuesFromEdge: number[] = []
-        potential: number[]
+        valuesFromCenter: FloatArray = null
+        valuesFromEdge: FloatArray = null
 
-        // F function used in our Numerov algorithm
+        // Values of the F function used in our Numerov algorithm, at each point
         // We need to keep this around for computing the discontinuities
-        F: (x: number) => number = null
+        F: FloatArray = null
 
-        constructor(potential: number[], public energy: number, public maxX: number) {
-            this.potential = potential.slice()
-        }
+        // Note we do not copy the potential; it must not be modified
+        constructor(public potential: number[], public energy: number, public maxX: number) { }
 
         length(): number {
             assert(this.valuesFromCenter.length === this.valuesFromEdge.length, "Wavefunction does not have a consistent length")
@@ -326,13 +517,13 @@ module algorithms {
 
         // computes the discontinuity in the two derivatives at the given location
         // we don't actually care if it's right or left
-        private derivativeDiscontinuity(psi: number[], x: number, dx: number): number {
+        private derivativeDiscontinuity(psi: FloatArray, x: number, dx: number): number {
             if (x === 0 || x + 1 === psi.length) {
                 // this indicates the turning points are at the very edges
                 // don't try to be clever here
                 return 0
             }
-            return (psi[x + 1] + psi[x - 1] - (14. - 12 * this.F(x)) * psi[x]) / dx
+            return (psi[x + 1] + psi[x - 1] - (14. - 12 * this.F[x]) * psi[x]) / dx
         }
 
         // Resolve the wavefunction by joining the inside-out and outside-in values at the given points
@@ -347,7 +538,9 @@ module algorithms {
             const rightScale = this.valuesFromCenter[right] / this.valuesFromEdge[right]
 
             // build our wavefunction piecewise: edge, center, edge
-            let psi = zeros(length)
+            // It is real, so we build it directly in the real part
+            let complexPsi = ComplexArray.zeros(length)
+            let psi = complexPsi.res
             let i = 0
             for (; i < left; i++) {
                 psi[i] = leftScale * this.valuesFromEdge[i]
@@ -375,10 +568,6 @@ module algorithms {
                 rightDerivativeDiscontinuity: rightDiscont
             }
 
-            let complexPsi = ComplexArray.zeros(psi.length)
-            for (let i=0; i < psi.length; i++) {
-                complexPsi.res[i] = psi[i]
-            }
             return new TimeIndependentWavefunction(complexPsi, dx, md)
         }
 
@@ -392,23 +581,133 @@ module algorithms {
     // Main entry point!
     // Given IntegratorInput, produce the time independent wavefunction using our numerical method
     export function classicallyResolvedAveragedNumerov(input: IntegratorInput): TimeIndependentWavefunction {
-        let tps = classicalTurningPoints(input.potentialMesh, input.energy)
+        const potential = input.potentialMesh
+        assert(potential.length >= 3, "PotentialMesh is too small")
+        const region = regionBetweenWalls(potential, indexOfMinimum(potential))
+        if (region.right - region.left < 2) {
+            return flatBetweenWalls(input, region)
+        }
+        // Stitch at the outer edges of the classically allowed regions
+        // The wavefunction vanishes in the walls, so stitch no further out than their edges
+        let tps = turningPointsOfRegions(classicalRegions(potential, input.energy), potential.length)
+        tps.left = Math.max(tps.left, region.left)
+        tps.right = Math.min(tps.right, region.right)
         let evenVal = numerov(input, Parity.Even).resolveAtTurningPoints(tps)
         let oddVal = numerov(input, Parity.Odd).resolveAtTurningPoints(tps)
         return averageWavefunctionsToCancelDiscontinuities(evenVal, oddVal)
     }
+
+    // With fewer than three points between hard walls, there is no room to integrate
+    // The only state that fits is flat between the walls (or nothing at all, if there is no room)
+    function flatBetweenWalls(input: IntegratorInput, region: MeshRegion): TimeIndependentWavefunction {
+        const length = input.potentialMesh.length
+        const dx = input.maxX / length
+        let values = ComplexArray.zeros(length)
+        for (let i = region.left; i <= region.right; i++) {
+            values.res[i] = 1
+        }
+        normalizeComplexFunction(values, dx)
+        let md: WavefunctionMetadata = {
+            energy: input.energy,
+            leftTurningPoint: region.left,
+            rightTurningPoint: Math.max(region.left, region.right),
+            leftDerivativeDiscontinuity: 0,
+            rightDerivativeDiscontinuity: 0
+        }
+        return new TimeIndependentWavefunction(values, dx, md)
+    }
+
+    // Counts the nodes (sign changes) of the real part of the given values,
+    // within the index range [start, end]
+    // Zeros are skipped, so that a value passing through exactly zero is counted once
+    function countNodes(vals: ComplexArray, start: number, end: number): number {
+        let nodes = 0
+        let lastSign = 0
+        for (let i = start; i <= end; i++) {
+            const sign = vals.res[i] > 0 ? 1 : (vals.res[i] < 0 ? -1 : 0)
+            if (sign !== 0) {
+                if (lastSign !== 0 && sign !== lastSign) nodes++
+                lastSign = sign
+            }
+        }
+        return nodes
+    }
+
+    // Eigenvalue search using the shooting method, as in reference/harmonic1.c
+    // Returns the first (up to) count bound states of the given potential, in order of increasing energy
+    // Each is a normalized TimeIndependentWavefunction whose md.energy is the eigen-energy
+    // We bisect on the energy. If the wavefunction has the wrong number of nodes, the
+    // node count tells us which way to go. If it has the right number, the derivative
+    // discontinuity at the right turning point tells us: if the discontinuity has the same sign
+    // as the wavefunction there, the energy is too high.
+    // Only energies below the maximum of the potential (see boundStateCeiling()) are considered bound,
+    // so fewer than count states may be returned. Pass maxEnergy to search a lower range.
+    export function findBoundStates(potentialMesh: number[], maxX: number, count: number, maxEnergy?: number): TimeIndependentWavefunction[] {
+        assert(potentialMesh.length >= 3, "PotentialMesh is too small")
+        const minEnergy = potentialMesh.reduce((a, b) => Math.min(a, b))
+        const potentialMax = boundStateCeiling(potentialMesh, maxX / potentialMesh.length)
+        if (maxEnergy === undefined || maxEnergy > potentialMax) {
+            maxEnergy = potentialMax
+        }
+        const tolerance = 1.0E-10
+        const maxIterations = 1000
+
+        const solve = (energy: number) => classicallyResolvedAveragedNumerov({
+            potentialMesh: potentialMesh,
+            energy: energy,
+            maxX: maxX
+        })
+
+        let result: TimeIndependentWavefunction[] = []
+        let lowerBound = minEnergy
+        for (let nodes = 0; nodes < count && lowerBound < maxEnergy; nodes++) {
+            let elw = lowerBound, eup = maxEnergy
+            for (let iter = 0; iter < maxIterations && eup - elw > tolerance; iter++) {
+                const energy = 0.5 * (elw + eup)
+                const psi = solve(energy)
+                const right = psi.md.rightTurningPoint
+                const ncross = countNodes(psi.values, 0, right)
+                if (ncross > nodes) {
+                    // Too many crossings: current energy is too high
+                    eup = energy
+                } else if (ncross < nodes) {
+                    // Too few crossings: current energy is too low
+                    elw = energy
+                } else if (psi.md.rightDerivativeDiscontinuity * psi.values.res[right] > 0) {
+                    eup = energy
+                } else {
+                    elw = energy
+                }
+            }
+
+            // If we converged onto the top of the potential, there are no more bound states
+            const energy = 0.5 * (elw + eup)
+            if (maxEnergy - energy <= 2 * tolerance) {
+                break
+            }
+            result.push(solve(energy))
+            lowerBound = energy
+        }
+        return result
+    }
+
     // The guts of the numerical method!
     // Given integrator input, compute a resolvable wavefunction
+    // We only integrate between the hard walls around the potential minimum; the wavefunction
+    // is zero in the walls. This region must have at least three points.
     function numerov(input: IntegratorInput, parity: Parity): ResolvableWavefunction {
         // We start at the point of minimum energy, and integrate left and right
         const even = (parity === Parity.Even)
         const potential = input.potentialMesh
         const length = potential.length
         assert(length >= 3, "PotentialMesh is too small")
-        const startIndex = indexOfMinimum(potential)
+        const region = regionBetweenWalls(potential, indexOfMinimum(potential))
+        const left = region.left, right = region.right
+        assert(right - left >= 2, "Too little room between hard walls")
+        const startIndex = Math.max(left + 1, Math.min(right - 1, indexOfMinimum(potential)))
 
         // Fill wavefunction with all 0s
-        let wavefunction = new ResolvableWavefunction(potential.slice(), input.energy, input.maxX)
+        let wavefunction = new ResolvableWavefunction(potential, input.energy, input.maxX)
         wavefunction.valuesFromCenter = zeros(length)
         wavefunction.valuesFromEdge = zeros(length)
 
@@ -416,21 +715,23 @@ module algorithms {
         const dx = input.maxX / length
         const ddx12 = dx * dx / 12.0
 
-        // F function used by Numerov
-        const F = (x: number) => 1.0 - ddx12 * 2. * (potential[x] - energy)
+        // F function used by Numerov, computed once for each point
+        // We never step into the walls, where it would be infinite
+        const F = zeros(length)
+        for (let i = 0; i < length; i++) {
+            F[i] = isHardWall(potential[i]) ? 1.0 : 1.0 - ddx12 * 2. * (potential[i] - energy)
+        }
         wavefunction.F = F
 
         // Numerov integrator formula
         // given that we have set psi[index], compute and set psi[index+1] if rightwards,
         // or psi[index-1] if leftwards
         const GoingLeft = false, GoingRight = true
-        const step = (psi: number[], index: number, rightwards: boolean) => {
+        const step = (psi: FloatArray, index: number, rightwards: boolean) => {
             const targetX = rightwards ? index + 1 : index - 1 // point we're setting
             const prev1X = index // previous x
             const prev2X = rightwards ? index - 1 : index + 1 // previous previous x
-            const psiVal = (((12. - F(prev1X) * 10.) * psi[prev1X] - F(prev2X) * psi[prev2X])) / F(targetX)
-            // We may get NaNs for very narrow potentials; flush them to zero
-            psi[targetX] = isNaN(psiVal) ? 0 : psiVal 
+            psi[targetX] = (((12. - F[prev1X] * 10.) * psi[prev1X] - F[prev2X] * psi[prev2X])) / F[targetX]
         }
 
         // integrate outwards
@@ -438,35 +739,35 @@ module algorithms {
         let psi = wavefunction.valuesFromCenter
         if (even) {
             psi[startIndex] = 1
-            psi[startIndex + 1] = 0.5 * (12. - F(startIndex) * 10.) * psi[startIndex] / F(startIndex + 1)
+            psi[startIndex + 1] = 0.5 * (12. - F[startIndex] * 10.) * psi[startIndex] / F[startIndex + 1]
         } else {
             psi[startIndex] = 0
             psi[startIndex + 1] = dx
         }
 
         // rightwards integration
-        for (let i = startIndex + 1; i + 1 < length; i++) {
+        for (let i = startIndex + 1; i + 1 <= right; i++) {
             // y[i + 1] = ((12. - f[i] * 10.) * y[i] - f[i - 1] * y[i - 1]) / f[i + 1];
             step(psi, i, GoingRight)
         }
         // leftwards integration
         // note we "start at" startIndex+1
-        for (let i = startIndex; i > 0; i--) {
+        for (let i = startIndex; i > left; i--) {
             step(psi, i, GoingLeft)
         }
 
         // integrate inwards
-        // we assume psi is 0 outside the mesh
+        // we assume psi is 0 outside the mesh, and in the walls
         psi = wavefunction.valuesFromEdge
-        psi[0] = even ? dx : -dx;
-        psi[1] = (12. - 10. * F(0)) * psi[0] / F(1);
-        for (let i = 1; i < startIndex; i++) {
+        psi[left] = even ? dx : -dx;
+        psi[left + 1] = (12. - 10. * F[left]) * psi[left] / F[left + 1];
+        for (let i = left + 1; i < startIndex; i++) {
             step(psi, i, GoingRight)
         }
 
-        psi[length - 1] = dx;
-        psi[length - 2] = (12. - 10. * F(length - 1)) * psi[length - 1] / F(length - 2);
-        for (let i = length - 2; i > startIndex; i--) {
+        psi[right] = dx;
+        psi[right - 1] = (12. - 10. * F[right]) * psi[right] / F[right - 1];
+        for (let i = right - 1; i > startIndex; i--) {
             step(psi, i, GoingLeft)
         }
 
@@ -506,7 +807,7 @@ module algorithms {
         let lines: string[] = []        
         const width = 1025
         
-        let potential = zeros(width)
+        let potential: number[] = []
         
         // Simple Harmonic Oscillator
         const baseEnergy = 0.04
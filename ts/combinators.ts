@@ -0,0 +1,173 @@
+/// <reference path="./potentials.ts"/>
+
+// Combinators build potentials out of other potentials, like "the SHO plus a small bump"
+// Each combination takes the named parameters of the potentials it combines, and adds its own,
+// so that it may be adjusted with the potential's controls
+
+module algorithms {
+
+    // Returns a potential that evaluates f, with the named parameters of the given potentials plus the added ones
+    // The added parameters are renamed if the potentials already have parameters with their names
+    // (for example, when scaling a potential twice) so f must read them through the returned specs
+    // The potentials all share the user-settable parameter, so only the first primary parameter is kept
+    function combine(potentials: PotentialBuilderFunc[], added: PotentialParameterSpec[],
+                     f: (specs: PotentialParameterSpec[]) => PotentialBuilderFunc): PotentialBuilderFunc {
+        let parameters: PotentialParameterSpec[] = []
+        potentials.forEach((pbf) => {
+            const hasPrimary = parameters.some((spec) => spec.primary)
+            parameters = parameters.concat(parametersOf(pbf).filter((spec) => ! (hasPrimary && spec.primary)))
+        })
+        const addedSpecs = added.map((spec) => {
+            const renamed = renamedParameter(spec, parameters)
+            parameters = parameters.concat([renamed])
+            return renamed
+        })
+        let result = f(addedSpecs)
+        result.parameters = parameters
+        result.usesParameter = potentials.some(usesParameter)
+        return result
+    }
+
+    // Returns the parameter, renamed if needed so that its name differs from those of the taken parameters
+    function renamedParameter(spec: PotentialParameterSpec, taken: PotentialParameterSpec[]): PotentialParameterSpec {
+        let name = spec.name
+        for (let suffix = 2; taken.some((existing) => existing.name === name); suffix++) {
+            name = spec.name + suffix
+        }
+        return {name: name, label: spec.label, min: spec.min, max: spec.max, step: spec.step,
+                defaultValue: spec.defaultValue, unit: spec.unit, primary: spec.primary}
+    }
+
+    // Returns the potential with its parameters renamed where they clash with the taken parameters
+    // The potential still reads its values under its own names, so we pass it values keyed that way
+    function withRenamedParameters(pbf: PotentialBuilderFunc, taken: PotentialParameterSpec[]): PotentialBuilderFunc {
+        const specs = parametersOf(pbf)
+        let allTaken = taken.slice()
+        const renamedSpecs = specs.map((spec) => {
+            const renamed = renamedParameter(spec, allTaken)
+            allTaken.push(renamed)
+            return renamed
+        })
+        if (renamedSpecs.every((spec, idx) => spec.name === specs[idx].name)) {
+            return pbf
+        }
+        // The same values are passed for every x, so only rename them when they change
+        let lastValues: PotentialParameterValues = null, lastRenamedValues: PotentialParameterValues = null
+        let result: PotentialBuilderFunc = (x: number, param: number, values?: PotentialParameterValues) => {
+            if (values !== lastValues) {
+                lastValues = values
+                lastRenamedValues = {}
+                specs.forEach((spec, idx) => {
+                    if (values && values.hasOwnProperty(renamedSpecs[idx].name)) {
+                        lastRenamedValues[spec.name] = values[renamedSpecs[idx].name]
+                    }
+                })
+            }
+            return pbf(x, param, lastRenamedValues)
+        }
+        result.parameters = renamedSpecs
+        result.usesParameter = usesParameter(pbf)
+        return result
+    }
+
+    // Helper to describe a parameter added by a combinator
+    function combinatorParameter(name: string, label: string, min: number, max: number, defaultValue: number,
+                                 unit: ParameterUnit = ParameterUnit.Energy): PotentialParameterSpec {
+        return {name: name, label: label, min: min, max: max, step: 0.01, defaultValue: defaultValue, unit: unit}
+    }
+
+    // The sum of two potentials
+    // Where the second has parameters with the same names as the first, they are renamed, so each has its own
+    export function sumPotential(first: PotentialBuilderFunc, second: PotentialBuilderFunc): PotentialBuilderFunc {
+        const renamedSecond = withRenamedParameters(second, parametersOf(first))
+        return combine([first, renamedSecond], [], () => (x: number, param: number, values?: PotentialParameterValues) => {
+            return first(x, param, values) + renamedSecond(x, param, values)
+        })
+    }
+
+    // The potential multiplied by a factor
+    // Hard walls stay hard walls, even when the factor is zero
+    export function scaledPotential(pbf: PotentialBuilderFunc, factor: number = 1): PotentialBuilderFunc {
+        const spec = combinatorParameter("scale", "Scale", 0, 2, factor, ParameterUnit.None)
+        return combine([pbf], [spec], ([scale]) => (x: number, param: number, values?: PotentialParameterValues) => {
+            const value = pbf(x, param, values)
+            return isHardWall(value) ? value : value * parameterValue(values, scale)
+        })
+    }
+
+    // The potential moved up (or down, for a negative offset)
+    export function shiftedPotential(pbf: PotentialBuilderFunc, offset: number = 0): PotentialBuilderFunc {
+        const spec = combinatorParameter("shift", "Shift", -0.5, 0.5, offset)
+        return combine([pbf], [spec], ([shift]) => (x: number, param: number, values?: PotentialParameterValues) => {
+            return pbf(x, param, values) + parameterValue(values, shift)
+        })
+    }
+
+    // The largest position a potential is evaluated at, since positions are in the range [0, 1)
+    const LargestX = 1 - 1e-9
+
+    // The potential moved right (or left, for a negative offset), as a fraction of the width
+    // What moves in at the edges continues the potential's value at that edge
+    export function translatedPotential(pbf: PotentialBuilderFunc, offset: number = 0): PotentialBuilderFunc {
+        const spec = combinatorParameter("offset", "Offset", -0.5, 0.5, offset, ParameterUnit.None)
+        return combine([pbf], [spec], ([offsetSpec]) => (x: number, param: number, values?: PotentialParameterValues) => {
+            const movedX = x - parameterValue(values, offsetSpec)
+            return pbf(Math.min(Math.max(movedX, 0), LargestX), param, values)
+        })
+    }
+
+    // The potential clipped to the range [floor, ceiling]
+    // Hard walls are boundary conditions, not energies, and so are not clipped
+    export function clippedPotential(pbf: PotentialBuilderFunc, floor: number = 0, ceiling: number = 1): PotentialBuilderFunc {
+        const floorSpec = combinatorParameter("floor", "Floor", 0, 1, floor)
+        const ceilingSpec = combinatorParameter("ceiling", "Ceiling", 0, 1, ceiling)
+        return combine([pbf], [floorSpec, ceilingSpec], ([floorParam, ceilingParam]) => {
+            return (x: number, param: number, values?: PotentialParameterValues) => {
+                const value = pbf(x, param, values)
+                if (isHardWall(value)) {
+                    return value
+                }
+                const low = parameterValue(values, floorParam)
+                const high = Math.max(low, parameterValue(values, ceilingParam))
+                return Math.min(Math.max(value, low), high)
+            }
+        })
+    }
+
+    // The potential plus a Gaussian bump, whose height may be negative to make a dip
+    export function bumpedPotential(pbf: PotentialBuilderFunc): PotentialBuilderFunc {
+        const heightSpec = combinatorParameter("bumpHeight", "Bump", -0.5, 0.5, 0.1)
+        const centerSpec = combinatorParameter("bumpCenter", "Center", 0, 1, 0.5, ParameterUnit.None)
+        const widthSpec = combinatorParameter("bumpWidth", "Width", 0.01, 0.2, 0.05, ParameterUnit.None)
+        return combine([pbf], [heightSpec, centerSpec, widthSpec], ([height, center, width]) => {
+            return (x: number, param: number, values?: PotentialParameterValues) => {
+                const distance = (x - parameterValue(values, center)) / parameterValue(values, width)
+                return pbf(x, param, values) + parameterValue(values, height) * Math.exp(-distance * distance / 2)
+            }
+        })
+    }
+
+    // Returns the strength of a potential made by perturbedPotential(), for the given values
+    // Its strength is the parameter it added, which comes after those of the potentials it combines
+    export function perturbationStrength(perturbed: PotentialBuilderFunc, values: PotentialParameterValues): number {
+        const specs = parametersOf(perturbed)
+        return parameterValue(values, specs[specs.length - 1])
+    }
+
+    // The base potential, perturbed towards another potential
+    // This is for sketched perturbations: the sketch is drawn over the base, and where it is walled off
+    // (outside what was drawn) the base is unchanged. The strength scales the difference
+    export function perturbedPotential(base: PotentialBuilderFunc, perturbation: PotentialBuilderFunc): PotentialBuilderFunc {
+        const spec = combinatorParameter("strength", "Strength", 0, 1, 1, ParameterUnit.None)
+        return combine([base, perturbation], [spec], ([strength]) => {
+            return (x: number, param: number, values?: PotentialParameterValues) => {
+                const baseValue = base(x, param, values)
+                const perturbedValue = perturbation(x, param, values)
+                if (isHardWall(baseValue) || isHardWall(perturbedValue)) {
+                    return baseValue
+                }
+                return baseValue + parameterValue(values, strength) * (perturbedValue - baseValue)
+            }
+        })
+    }
+}
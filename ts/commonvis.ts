@@ -1,6 +1,11 @@
 /// <reference path="../typings/threejs/three.d.ts"/>
 /// <reference path="./algorithms.ts"/>
 /// <reference path="./potentials.ts"/>
+/// <reference path="./propagator.ts"/>
+/// <reference path="./reference.ts"/>
+/// <reference path="./scattering.ts"/>
+/// <reference path="./solvers.ts"/>
+/// <reference path="./wavepacket.ts"/>
 
 // Helper machinery for our visualizers
 
@@ -104,13 +109,36 @@ module visualizing {
         public energyScale: number = 5 // coefficient for energy in the visualizer, only affects label
         public frequencyScale: number = .5 // coefficient for frequency when taking the fourier transform, relates to mass
         public meshDivision: number = 800 // how many points are in our mesh
+        public propagationTimestep: number = .01 // time step when solving the time-dependent equation directly
+        public wavepacketStateCount: number = 32 // how many bound states we decompose wavepackets onto
+        public solveInWorker: boolean = true // whether we solve for wavefunctions in a Web Worker, if possible
+        public transmissionSampleCount: number = 200 // how many energies we sample when plotting T(E)
+        public transmissionPlotWidth: number = 200 // how wide the T(E) plot is when T = 1, in "pixels"
+        public hardWallDrawnPotential: number = 10 // hard walls are drawn at this potential, far above the top
+        public kinkMarkerSize: number = 24 // height of the marks at kinks in the wavefunction, in "pixels"
+        public sketchHandleRadius: number = 7 // radius of the handles on the control points of a sketch, in "pixels"
+        public sketchTolerance: number = .004 // how closely the control points of a sketch follow what was drawn
+        public doubleClickInterval: number = 400 // in milliseconds; double clicking a sketch handle deletes it
         public psiScale: number = 250 // how much scale we visually apply to the wavefunction
         public psiAbsScale: number = this.psiScale * 1.75 // how much scale we visually apply to the psiAbs and phiAbs
+        public currentScale: number = this.psiAbsScale * 2 // how much scale we visually apply to the probability current
 
         // Colors of psi (position-space) and phi (momentum-space) wavefunctions
         public psiColor: number = 0xFFD633
         public phiColor: number = 0x0077FF 
 
+        // Color of the probability current
+        public currentColor: number = 0x33CC66
+
+        // Color of the exact solution, drawn next to the numerical psi
+        public referenceColor: number = 0xFFFFFF
+
+        // Colors of the energy bars, and the forbidden regions they shade, used in turn
+        public energyColors: number[] = [0xFF0000, 0xFF9900, 0xCC33FF, 0x00CCCC, 0xFF66CC, 0x99CC00]
+
+        // Opacity of the shaded classically forbidden regions
+        public forbiddenRegionOpacity: number = .15
+
         // Some helper functions based on the visualization
 
         // Given an index in our mesh, returns the X location of middle of the cell
@@ -159,27 +187,95 @@ module visualizing {
         public potential: number[] = []
         public potentialParameter: number = .15 // single draggable parameter in our potential, in the range [0, 1)
 
+        // Values of the named parameters of our potential, keyed by name
+        // This is replaced (not modified) when a value changes, so that we notice we must rebuild the potential
+        // If the potential has a primary parameter, its value here is kept the same as potentialParameter
+        public potentialParameterValues: algorithms.PotentialParameterValues = {}
+
+        // The seed of our random potential, or null if our potential is not random
+        // Together with the options, the seed determines the potential, so that it may be recreated
+        public randomPotentialSeed: number = null
+        public randomPotentialOptions: algorithms.RandomPotentialOptions = algorithms.DefaultRandomPotentialOptions
+
         // Whether we are sketching a potential, and the sketch locations
         public sketching: boolean = false
         public sketchLocations: THREE.Vector3[] = []
 
+        // The editable control points of our sketched potential, in the range [0, 1] and sorted by x
+        // Empty unless our potential was sketched. This is replaced (not modified) as the points are edited
+        public sketchControlPoints: algorithms.Point2[] = []
+
+        // What was drawn for our sketched potential, in the range [0, 1], and how we process it into control points
+        // When the options change, we process the sketch again
+        public sketchSamples: algorithms.Point2[] = []
+        public sketchOptions: algorithms.SketchOptions = algorithms.DefaultSketchOptions
+
+        // When sketching a perturbation, the potential it perturbs, else null
+        public sketchBase: algorithms.PotentialBuilderFunc = null
+
         public showPsi = true // show position psi(x)
         public showPsiAbs = false // show position probability |psi(x)|^2
         public showPhi = false; // show momentum phi(x)
         public showPhiAbs = false // show momentum probability |phi(x)|^2
+        public showCurrent = false // show probability current j(x)
+        public showReference = false // show the exact solution, for potentials that have one
+        public showKinks = false // mark the kinks in the wavefunction, where it is stitched at a disallowed energy
 
         // animation pause state
         public paused = false
 
+        // If set, we show this Gaussian wavepacket instead of the energies
+        public wavepacket: algorithms.WavepacketParameters = null
+
+        // Whether we treat the potential as open on both sides, and show scattering states
+        // with a wave incoming from the left, instead of bound states
+        public scattering = false
+
+        // The method used to solve the time-independent Schrodinger equation
+        public solver: algorithms.Solver = new algorithms.NumerovSolver()
+
+        // Whether we evolve the wavefunction by solving the time-dependent Schrodinger equation
+        // directly (Crank-Nicolson), instead of rotating the phase of each energy component
+        public propagate = false
+
+        // Whether the expectation values readout is expanded
+        public showObservables = false
+
+        // Whether released energy sliders snap to the nearest bound state energy
+        public snapToEigenstates = false
+
         // The energies array is sparse
         // Keys are energy bar identifiers, values are numbers
         public energies: { [key:string]:number; } = {}
 
+        // The weight and relative phase (in radians) of each energy in the superposition
+        // Keys are energy bar identifiers. Missing entries mean a weight of 1 and a phase of 0.
+        public weights: { [key:string]:number; } = {}
+        public phases: { [key:string]:number; } = {}
+
         // Returns a dense array of the energy values, discarding the identifiers
         public energyValues(): number[] {
             return Object.keys(this.energies).map((k) => this.energies[k])
         }
 
+        // Returns the weight of the energy with the given identifier
+        public weightOf(identifier: string): number {
+            return identifier in this.weights ? this.weights[identifier] : 1
+        }
+
+        // Returns the relative phase of the energy with the given identifier
+        public phaseOf(identifier: string): number {
+            return identifier in this.phases ? this.phases[identifier] : 0
+        }
+
+        // Returns a dense array of the complex coefficients of the energies,
+        // in the same order as energyValues()
+        public energyCoefficients(): algorithms.Complex[] {
+            return Object.keys(this.energies).map((k) => {
+                return algorithms.Complex.exponential(this.phaseOf(k)).multipliedByReal(this.weightOf(k))
+            })
+        }
+
         // Copies the receiver. Implementation detail used to ensure immutability.
         private copy(): State {
             let clone = new State(this.params_)
@@ -191,14 +287,30 @@ module visualizing {
             return clone
         }
 
+        // Keeps the value of our potential's primary parameter the same as potentialParameter, which sets it
+        // The values are replaced rather than modified, like when any other value changes
+        private syncPrimaryParameterValue() {
+            const spec = algorithms.primaryParameterOf(this.potentialBuilder)
+            if (spec && this.potentialParameterValues[spec.name] !== this.potentialParameter) {
+                let values: algorithms.PotentialParameterValues = {}
+                for (let key in this.potentialParameterValues) {
+                    values[key] = this.potentialParameterValues[key]
+                }
+                values[spec.name] = this.potentialParameter
+                this.potentialParameterValues = values
+            }
+        }
+
         // Builds the potential from the potential builder
         // This is not a cheap operation, so we only do it if necessary
         private rebuildPotentialIfNeeded(oldState:State) {
             if (! this.potentialBuilder) {
                 this.potential = []
             } else if (this.potentialParameter !== oldState.potentialParameter || 
-                    this.potentialBuilder !== oldState.potentialBuilder) {
-                this.potential = buildPotential(this.params_, this.potentialParameter, this.potentialBuilder)
+                    this.potentialBuilder !== oldState.potentialBuilder ||
+                    this.potentialParameterValues !== oldState.potentialParameterValues) {
+                this.potential = buildPotential(this.params_, this.potentialParameter, this.potentialBuilder,
+                                                this.potentialParameterValues)
             }
         }
 
@@ -207,6 +319,7 @@ module visualizing {
         public modify(handler:(st:State) => void) {
             let cp = this.copy()
             handler(cp)
+            cp.syncPrimaryParameterValue()
             cp.rebuildPotentialIfNeeded(this)
             cp.applyStateUpdate(cp)
         }        
@@ -215,16 +328,34 @@ module visualizing {
     
     // Builds a potential based on a function
     // let f be a function that accepts an x position, and optionally the x fraction (in the range [0, 1))
+    // and the values of its named parameters
     // returns the new potential
-    export function buildPotential(params:Parameters, potentialParam:number, f:algorithms.PotentialBuilderFunc): number[] {
+    export function buildPotential(params:Parameters, potentialParam:number, f:algorithms.PotentialBuilderFunc,
+                                   values: algorithms.PotentialParameterValues = {}): number[] {
         let potentialMesh: number[] = []
         for (let i = 0; i < params.meshDivision; i++) {
             const x = i / params.meshDivision
-            potentialMesh.push(f(x, potentialParam))
+            potentialMesh.push(f(x, potentialParam, values))
         }
         return potentialMesh
     }
 
+    // Returns the index of the first value of the potential mesh that can't be solved, or -1 if there is none
+    // Those are values that are not a number, or minus infinity. Hard walls are infinite, but are fine
+    export function invalidPotentialIndex(mesh: number[]): number {
+        for (let i = 0; i < mesh.length; i++) {
+            if (isNaN(mesh[i]) || mesh[i] === -Infinity) return i
+        }
+        return -1
+    }
+
+    // Whether the potential built with the given parameters can be solved
+    // Potentials typed as expressions may be fine for some parameters but not others, like sqrt(x - p)
+    export function isValidPotential(params:Parameters, potentialParam:number, f:algorithms.PotentialBuilderFunc,
+                                     values: algorithms.PotentialParameterValues = {}): boolean {
+        return invalidPotentialIndex(buildPotential(params, potentialParam, f, values)) < 0
+    }
+
 
     // Benchmark and testing machinery
     function timeThing(iters:number, funct: (() => void)) {
@@ -282,22 +413,26 @@ module visualizing {
         const dx = .1, dfreq = .01
 
         // Verify correctness
-        const values = psi.values
-        let expected = algorithms.fourierTransformNaive(values.res, center, dx, dfreq)
-        if (! arraysAreClose(expected, algorithms.fourierTransform(values.res, center,  dx, dfreq))) {
+        // Give the values an imaginary part, so we exercise the complex arithmetic
+        let values = psi.values.slice()
+        for (let i = 0; i < values.length; i++) {
+            values.set(i, values.at(i).multiplied(algorithms.Complex.exponential(i * dx)))
+        }
+        let expected = algorithms.fourierTransformNaive(values, center, dx, dfreq)
+        if (! arraysAreClose(expected, algorithms.fourierTransform(values, center,  dx, dfreq))) {
             text += "fourierTransform produces wrong result\n"
         }
 
         {
             let duration1 = timeThing(maxIter, () => {
-                algorithms.fourierTransform(values.res, center,  dx, dfreq)
+                algorithms.fourierTransform(values, center,  dx, dfreq)
             })
             text += "fourierTransform: " + duration1.toFixed(2) + " ms     "
         }
 
         if (!forProfiling) {
             let duration2 = timeThing(maxIter, () => {
-                algorithms.fourierTransformNaive(values.res, center, dx, dfreq)
+                algorithms.fourierTransformNaive(values, center, dx, dfreq)
             })
             text += "fourierTransformNaive: " + duration2.toFixed(2) + " ms"
         }
@@ -36,36 +36,19 @@ module algorithms {
         }
     }
 
-    // Helper machinery around using FloatArray, which provides some performance benefits
-    // We can switch here between Float32 and Float64, or just number[]
-    // In current tests, the naive number[] beats FloatArray
-    
-    // export let FloatArray = Float64Array
-    // export type FloatArray = Float64Array
-
-    export let FloatArray = null
-    export type FloatArray = number[]
+    // Our arrays of floating point values are Float64Arrays
+    // These are contiguous, so our hot loops don't chase pointers or allocate,
+    // and they can be transferred to and from workers without copying
+    export type FloatArray = Float64Array
 
     // Construct a new FloatArray containing zeros
     function newFloatArray(length: number): FloatArray {
-        if (FloatArray == Float32Array || FloatArray == Float64Array) {
-            return new FloatArray(length)
-        } else {
-            let result: number[] = []
-            for (let i = 0; i < length; i++) {
-                result.push(0)
-            }
-            return result as any
-        }
+        return new Float64Array(length)
     }
 
     // Make an independent copy of a given FloatArray
     function copyFloatArray(arr: FloatArray): FloatArray {
-        if (FloatArray == Float32Array || FloatArray == Float64Array) {
-            return new FloatArray(arr)
-        } else {
-            return arr.slice() as any
-        }
+        return new Float64Array(arr)
     }
 
     // ComplexArray efficiently stores an array of complex values,
@@ -1,27 +1,105 @@
 /// <reference path='./ui.ts'/>
+/// <reference path='./forbiddenvis.ts'/>
 
 // The energy visualizer manages both the sliders and the energy bars
 module visualizing {
+
+    // The most bound states we look for when snapping or populating energies
+    const MaxBoundStateCount = 32
     
     // Private class representing a single energy
-    // It wraps up a line and a slider
+    // It wraps up a line and a slider, the inputs for the energy's weight and phase,
+    // and a shading of the regions that are classically forbidden at its energy
+    // It also shows how close its wavefunction is to stationary, with a gauge and markers at any kinks
     // It also has an identifier, which acts as glue between the energies in the model and the UI
     class EnergyBar { 
         public line: Polyline
+        public forbiddenShading: ForbiddenRegionShading
+        public kinkMarkers: Polyline[] // at the left and right turning points
+        public weightInput: HTMLInputElement
+        public phaseInput: HTMLInputElement
+        public stationarityGauge: HTMLElement
+        public stationarityLevel: HTMLElement
+        private energy_ = 0
         
         constructor(public identifier:string, public slider: ui.Slider,
                     group: THREE.Group, public params: Parameters) {
-            this.line = Polyline.create(2, group, { color: 0xFF0000 })
+            // Pick our color by our identifier, so that it doesn't change as other bars come and go
+            const colors = params.energyColors
+            const color = colors[parseInt(identifier, 10) % colors.length]
+            this.line = Polyline.create(2, group, { color: color })
+            this.forbiddenShading = new ForbiddenRegionShading(params, group, color, params.forbiddenRegionOpacity)
+            this.kinkMarkers = [0, 1].map(() => Polyline.create(2, group, { color: color, linewidth: 2 }))
+            const grip = slider.element.getElementsByClassName("grip")[0] as HTMLElement
+            if (grip) {
+                grip.style.borderLeftColor = "#" + ("000000" + color.toString(16)).slice(-6)
+            }
+            this.weightInput = slider.element.getElementsByClassName("weight_input")[0] as HTMLInputElement
+            this.phaseInput = slider.element.getElementsByClassName("phase_input")[0] as HTMLInputElement
+            this.stationarityGauge = slider.element.getElementsByClassName("stationarity_gauge")[0] as HTMLElement
+            this.stationarityLevel = slider.element.getElementsByClassName("stationarity_level")[0] as HTMLElement
+            this.setStationarity(null, false)
+        }
+
+        // Sets the weight and phase of this energy in the superposition
+        // Weight is in the range [0, 1], phase is in radians
+        // Note we avoid touching inputs that already have the value, so as not to disturb an ongoing edit
+        public setCoefficient(weight: number, phase: number) {
+            if (this.weightInput && parseFloat(this.weightInput.value) !== weight) {
+                this.weightInput.value = weight + ''
+            }
+            if (this.phaseInput && parseFloat(this.phaseInput.value) !== phase) {
+                this.phaseInput.value = phase + ''
+            }
         }
 
         // Sets the energy, which means updating our line and slider 
         // Energy is in the range [0, 1]
         public setEnergy(energy: number) {
+            this.energy_ = energy
             const yPosition = this.params.convertYToVisualCoordinate(energy)
             this.line.makeHorizontal(this.params.width, yPosition)
             this.slider.setPosition(yPosition)
             this.slider.setValue(energy * this.params.energyScale)
         }
+
+        // Shades the regions of the potential that are classically forbidden at the given energy
+        // An empty potential has nothing to shade
+        public setForbiddenRegions(potential: number[], energy: number, visible: boolean) {
+            this.forbiddenShading.setVisible(visible && potential.length > 0)
+            if (visible) {
+                this.forbiddenShading.update(potential, energy)
+            }
+        }
+
+        // Shows how close our wavefunction is to stationary, given its metadata
+        // The gauge fills as the kinks shrink; if showKinks is set, kinks are marked where our line meets them
+        // A null metadata hides the gauge and markers
+        public setStationarity(md: algorithms.WavefunctionMetadata, showKinks: boolean) {
+            if (this.stationarityGauge) {
+                this.stationarityGauge.style.visibility = md ? "visible" : "hidden"
+            }
+            if (md && this.stationarityLevel) {
+                const stationarity = algorithms.stationarity(md)
+                // Red when far from stationary, through yellow to green
+                this.stationarityLevel.style.width = (stationarity * 100).toFixed(0) + "%"
+                this.stationarityLevel.style.backgroundColor = "hsl(" + (stationarity * 120).toFixed(0) + ", 80%, 45%)"
+                this.stationarityGauge.title = "Stationarity: " + (stationarity * 100).toFixed(0) + "%"
+            }
+
+            const turningPoints = md ? [md.leftTurningPoint, md.rightTurningPoint] : []
+            const discontinuities = md ? [md.leftDerivativeDiscontinuity, md.rightDerivativeDiscontinuity] : []
+            const y = this.params.convertYToVisualCoordinate(this.energy_)
+            const halfSize = this.params.kinkMarkerSize / 2
+            this.kinkMarkers.forEach((marker: Polyline, idx: number) => {
+                const visible = showKinks && md !== null && algorithms.isKink(discontinuities[idx])
+                marker.setVisible(visible)
+                if (visible) {
+                    const x = this.params.xCenterForMeshIndex(turningPoints[idx])
+                    marker.update((i: number) => vector3(x, y + (i === 0 ? -halfSize : halfSize), 0))
+                }
+            })
+        }
     }
     
     // EnergyVisualizer maintains a list of EnergyBars, and maps between
@@ -40,6 +118,16 @@ module visualizing {
         private bars_: { [key:string]:EnergyBar; } = {}
         
         private state_: State = new State(this.params)
+
+        // The bound state energies of our potential, used for snapping and populating
+        // These are expensive to compute, so we cache them along with the potential they came from
+        private boundStatePotential_: number[] = null
+        private boundStateSolver_: algorithms.Solver = null
+        private boundStateEnergies_: number[] = []
+
+        // Metadata of the wavefunctions most recently solved for our energies, keyed by identifier
+        // This is what the stationarity gauges show
+        private solvedMetadata_: { [key:string]:algorithms.WavefunctionMetadata; } = {}
         
         constructor(public container: HTMLElement,
                     public sliderPrototype: HTMLElement,
@@ -79,10 +167,45 @@ module visualizing {
             return longestIntervalMidpoint
         }
 
+        // Returns the bound state energies of our potential that lie in our energy range [0, 1)
+        private boundStateEnergies(): number[] {
+            const potential = this.state_.potential
+            const solver = this.state_.solver
+            if (potential !== this.boundStatePotential_ || solver !== this.boundStateSolver_) {
+                this.boundStatePotential_ = potential
+                this.boundStateSolver_ = solver
+                this.boundStateEnergies_ = []
+                if (potential.length > 0) {
+                    const states = solver.boundStates(potential, this.params.maxX, MaxBoundStateCount, 1.0)
+                    this.boundStateEnergies_ = states.map((psi) => psi.md.energy)
+                }
+            }
+            return this.boundStateEnergies_
+        }
+
+        // Returns the bound state energy closest to the given energy
+        // If there are no bound states, returns the energy unchanged
+        private nearestBoundStateEnergy(energy: number): number {
+            let result = energy
+            let bestDistance = Infinity
+            this.boundStateEnergies().forEach((candidate: number) => {
+                const distance = Math.abs(candidate - energy)
+                if (distance < bestDistance) {
+                    bestDistance = distance
+                    result = candidate
+                }
+            })
+            return result
+        }
+
         // Entry point from the UI
         // Pick another energy and identifier, and set it in the state - simple!
+        // If we are snapping, pick the bound state closest to that energy
         public addEnergySlider() {
-            const energy = this.nextInterestingEnergy()
+            let energy = this.nextInterestingEnergy()
+            if (this.state_.snapToEigenstates) {
+                energy = this.nearestBoundStateEnergy(energy)
+            }
             this.state_.modify((st:State) => {
                 const identifier = EnergyVisualizer.sNextEnergyBarIdentifier++
                 st.energies[identifier + ''] = energy
@@ -98,16 +221,67 @@ module visualizing {
                 const maxID = energyIDs.reduce((a, b) => Math.max(a, b))
                 this.state_.modify((st:State) => {                      
                     delete st.energies[maxID]
+                    delete st.weights[maxID]
+                    delete st.phases[maxID]
                 })
             }
         }
 
+        // Entry point from the UI
+        // Replace all energies with the first count bound state energies
+        // If count is not given, keep the number of energies we have now
+        public populateEnergyLevels(count?: number) {
+            if (count === undefined) {
+                count = Math.max(1, Object.keys(this.state_.energies).length)
+            }
+            const levels = this.boundStateEnergies().slice(0, count)
+            if (levels.length > 0) {
+                this.state_.modify((st:State) => {
+                    st.energies = {}
+                    st.weights = {}
+                    st.phases = {}
+                    levels.forEach((energy: number) => {
+                        const identifier = EnergyVisualizer.sNextEnergyBarIdentifier++
+                        st.energies[identifier + ''] = energy
+                    })
+                })
+            }
+        }
+
+        // Entry point from the UI
+        // Move every energy to its nearest bound state energy
+        public snapEnergiesToEigenstates() {
+            this.state_.modify((st:State) => {
+                let energies: { [key:string]:number; } = {}
+                for (let energyID in st.energies) {
+                    energies[energyID] = this.nearestBoundStateEnergy(st.energies[energyID])
+                }
+                st.energies = energies
+            })
+        }
+
         // Entry point for our state updates
         public setState(state:State) {
             this.state_ = state
             this.applyStateToEnergyBars() 
         }
 
+        // Entry point for solutions
+        // Sets the metadata of the wavefunctions solved for our energies, keyed by energy identifier
+        // Energies without metadata (for example, while they are being solved) keep what they had
+        public setSolvedMetadata(metadata: { [key:string]:algorithms.WavefunctionMetadata; }) {
+            for (let energyID in metadata) {
+                this.solvedMetadata_[energyID] = metadata[energyID]
+            }
+            this.applyStateToEnergyBars()
+        }
+
+        // Forget the metadata of all of our energies, for example because we are not solving for them
+        public clearSolvedMetadata() {
+            this.solvedMetadata_ = {}
+            this.applyStateToEnergyBars()
+        }
+
         // Given our current state, rationalize it against our energy bars
         private applyStateToEnergyBars() {
             const energies = this.state_.energies
@@ -117,6 +291,7 @@ module visualizing {
                 if (! (identifier in energies)) {
                     this.tearDownEnergyBar(this.bars_[identifier])
                     delete this.bars_[identifier]
+                    delete this.solvedMetadata_[identifier]
                 }
             })
 
@@ -127,6 +302,14 @@ module visualizing {
                     this.bars_[energyID] = this.makeEnergyBar(energyID)
                 }
                 this.bars_[energyID].setEnergy(energies[energyID])
+                this.bars_[energyID].setCoefficient(this.state_.weightOf(energyID), this.state_.phaseOf(energyID))
+                // Wavepackets don't have these energies, so they shade their own forbidden region
+                this.bars_[energyID].setForbiddenRegions(this.state_.potential, energies[energyID], ! this.state_.wavepacket)
+                // Scattering states aren't stitched, nor are those of some solvers, so they have no kinks to judge by
+                const stationarityVisible = (! this.state_.wavepacket && ! this.state_.scattering &&
+                                             this.state_.solver.stitches)
+                const md = this.solvedMetadata_[energyID]
+                this.bars_[energyID].setStationarity(stationarityVisible && md ? md : null, this.state_.showKinks)
             }
         }
 
@@ -152,14 +335,47 @@ module visualizing {
                     st.energies[identifier] = energy
                 })
             }
-            return new EnergyBar(identifier, slider, this.group, this.params)
+
+            // When the slider is released, snap it to the nearest bound state if requested
+            slider.draggingEndedHandler = () => {
+                if (this.state_.snapToEigenstates && identifier in this.state_.energies) {
+                    const energy = this.nearestBoundStateEnergy(this.state_.energies[identifier])
+                    this.state_.modify((st:State) => {
+                        st.energies[identifier] = energy
+                    })
+                }
+            }
+            let bar = new EnergyBar(identifier, slider, this.group, this.params)
+
+            // Editing the weight or phase updates the state
+            if (bar.weightInput) {
+                bar.weightInput.oninput = () => {
+                    const weight = parseFloat(bar.weightInput.value)
+                    this.state_.modify((st:State) => {
+                        st.weights[identifier] = weight
+                    })
+                }
+            }
+            if (bar.phaseInput) {
+                bar.phaseInput.oninput = () => {
+                    const phase = parseFloat(bar.phaseInput.value)
+                    this.state_.modify((st:State) => {
+                        st.phases[identifier] = phase
+                    })
+                }
+            }
+            return bar
         }
         
         // Called from state update
         // Removes a bar's UI elements
         private tearDownEnergyBar(bar:EnergyBar) {
+            if (bar.weightInput) bar.weightInput.oninput = null
+            if (bar.phaseInput) bar.phaseInput.oninput = null
             bar.slider.remove()
             bar.line.remove()
+            bar.forbiddenShading.remove()
+            bar.kinkMarkers.forEach((marker) => marker.remove())
         }
     }
 }
@@ -0,0 +1,311 @@
+/// <reference path="./potentials.ts"/>
+
+// Support for potentials typed by the user as mathematical expressions, like 0.5*(x-0.5)^2
+// We parse expressions ourselves, and never hand them to eval()
+// Expressions are compiled into closures, so a potential is cheap to sample across the mesh
+
+module algorithms {
+
+    // An error in an expression, at the given character position (from 0)
+    export class ExpressionError {
+        constructor(public message: string, public position: number) {}
+
+        toString(): string {
+            return this.message + " at column " + (this.position + 1)
+        }
+    }
+
+    // The variables of an expression: x is the position and p the user parameter, both in the range [0, 1)
+    interface Variables {
+        x: number
+        p: number
+    }
+
+    // A compiled expression, or part of one
+    interface Evaluator { (vars: Variables): number }
+
+    // The named constants and variables an expression may use
+    const Constants: { [name:string]:number; } = {
+        "pi": Math.PI,
+        "e": Math.E
+    }
+
+    // The functions an expression may call, with how many arguments they take
+    // Comparisons produce 1 for true and 0 for false, so step() and piecewise() take any number as a condition
+    interface ExpressionFunction {
+        minArgs: number
+        maxArgs: number
+        apply: (args: number[]) => number
+    }
+    const Functions: { [name:string]:ExpressionFunction; } = {
+        "abs": { minArgs: 1, maxArgs: 1, apply: (args) => Math.abs(args[0]) },
+        "sqrt": { minArgs: 1, maxArgs: 1, apply: (args) => Math.sqrt(args[0]) },
+        "exp": { minArgs: 1, maxArgs: 1, apply: (args) => Math.exp(args[0]) },
+        "log": { minArgs: 1, maxArgs: 1, apply: (args) => Math.log(args[0]) },
+        "sin": { minArgs: 1, maxArgs: 1, apply: (args) => Math.sin(args[0]) },
+        "cos": { minArgs: 1, maxArgs: 1, apply: (args) => Math.cos(args[0]) },
+        "tan": { minArgs: 1, maxArgs: 1, apply: (args) => Math.tan(args[0]) },
+        "sinh": { minArgs: 1, maxArgs: 1, apply: (args) => (Math.exp(args[0]) - Math.exp(-args[0])) / 2 },
+        "cosh": { minArgs: 1, maxArgs: 1, apply: (args) => (Math.exp(args[0]) + Math.exp(-args[0])) / 2 },
+        "tanh": { minArgs: 1, maxArgs: 1, apply: (args) => 1 - 2 / (Math.exp(2 * args[0]) + 1) },
+        "min": { minArgs: 1, maxArgs: Infinity, apply: (args) => Math.min.apply(null, args) },
+        "max": { minArgs: 1, maxArgs: Infinity, apply: (args) => Math.max.apply(null, args) },
+
+        // Heaviside step: 0 below zero, 1 at and above
+        "step": { minArgs: 1, maxArgs: 1, apply: (args) => args[0] >= 0 ? 1 : 0 },
+
+        // piecewise(condition1, value1, condition2, value2, ..., otherwise)
+        // Returns the value of the first true (nonzero) condition, else the otherwise value, else 0
+        "piecewise": { minArgs: 2, maxArgs: Infinity, apply: (args) => {
+            let i = 0
+            for (; i + 1 < args.length; i += 2) {
+                if (args[i] !== 0) return args[i + 1]
+            }
+            return i < args.length ? args[i] : 0
+        }}
+    }
+
+    enum TokenKind {
+        Number,
+        Identifier,
+        Operator,
+        End
+    }
+
+    interface Token {
+        kind: TokenKind
+        text: string
+        position: number
+    }
+
+    // Operators, longest first so that "<=" is not read as "<"
+    const Operators = ["<=", ">=", "==", "!=", "+", "-", "*", "/", "^", "(", ")", ",", "<", ">", "?", ":"]
+
+    // Splits the text into tokens, ending with an End token
+    function tokenize(text: string): Token[] {
+        let result: Token[] = []
+        let i = 0
+        while (i < text.length) {
+            const c = text.charAt(i)
+            if (/\s/.test(c)) {
+                i++
+                continue
+            }
+            const rest = text.substr(i)
+            const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(rest)
+            const identifier = /^[A-Za-z_]\w*/.exec(rest)
+            const operators = Operators.filter((op) => rest.substr(0, op.length) === op)
+            if (number) {
+                result.push({kind: TokenKind.Number, text: number[0], position: i})
+            } else if (identifier) {
+                result.push({kind: TokenKind.Identifier, text: identifier[0], position: i})
+            } else if (operators.length > 0) {
+                result.push({kind: TokenKind.Operator, text: operators[0], position: i})
+            } else {
+                throw new ExpressionError("Unexpected '" + c + "'", i)
+            }
+            i += result[result.length - 1].text.length
+        }
+        result.push({kind: TokenKind.End, text: "", position: text.length})
+        return result
+    }
+
+    // Recursive descent parser, which produces an Evaluator directly
+    // From lowest to highest precedence:
+    //    conditional:    comparison [? conditional : conditional]
+    //    comparison:     sum [(< | <= | > | >= | == | !=) sum]
+    //    sum:            product {(+ | -) product}
+    //    product:        unary {(* | /) unary}
+    //    unary:          (+ | -) unary | power
+    //    power:          primary [^ unary]       (so 2^-x and 2^3^2 work, and -x^2 is -(x^2))
+    //    primary:        number | name | name(arguments) | (conditional)
+    class Parser {
+        private tokens_: Token[]
+        private index_ = 0
+
+        // Whether the expression refers to the parameter p
+        public usesParameter = false
+
+        constructor(text: string) {
+            this.tokens_ = tokenize(text)
+        }
+
+        // Parses the whole text
+        parse(): Evaluator {
+            if (this.peek().kind === TokenKind.End) {
+                throw new ExpressionError("Expression is empty", 0)
+            }
+            const result = this.conditional()
+            if (this.peek().kind !== TokenKind.End) {
+                throw new ExpressionError("Unexpected '" + this.peek().text + "'", this.peek().position)
+            }
+            return result
+        }
+
+        private peek(): Token {
+            return this.tokens_[this.index_]
+        }
+
+        private next(): Token {
+            const token = this.tokens_[this.index_]
+            if (token.kind !== TokenKind.End) this.index_++
+            return token
+        }
+
+        // If the next token is one of the given operators, consumes and returns it
+        private accept(operators: string[]): Token {
+            const token = this.peek()
+            if (token.kind === TokenKind.Operator && operators.indexOf(token.text) >= 0) {
+                return this.next()
+            }
+            return null
+        }
+
+        private expect(operator: string) {
+            if (! this.accept([operator])) {
+                const token = this.peek()
+                const found = token.kind === TokenKind.End ? "end of expression" : "'" + token.text + "'"
+                throw new ExpressionError("Expected '" + operator + "' but found " + found, token.position)
+            }
+        }
+
+        private conditional(): Evaluator {
+            const condition = this.comparison()
+            if (! this.accept(["?"])) {
+                return condition
+            }
+            const ifTrue = this.conditional()
+            this.expect(":")
+            const ifFalse = this.conditional()
+            return (vars) => condition(vars) !== 0 ? ifTrue(vars) : ifFalse(vars)
+        }
+
+        private comparison(): Evaluator {
+            const left = this.sum()
+            const op = this.accept(["<", "<=", ">", ">=", "==", "!="])
+            if (! op) {
+                return left
+            }
+            const right = this.sum()
+            switch (op.text) {
+                case "<": return (vars) => left(vars) < right(vars) ? 1 : 0
+                case "<=": return (vars) => left(vars) <= right(vars) ? 1 : 0
+                case ">": return (vars) => left(vars) > right(vars) ? 1 : 0
+                case ">=": return (vars) => left(vars) >= right(vars) ? 1 : 0
+                case "==": return (vars) => left(vars) === right(vars) ? 1 : 0
+                default: return (vars) => left(vars) !== right(vars) ? 1 : 0
+            }
+        }
+
+        private sum(): Evaluator {
+            let result = this.product()
+            let op: Token
+            while ((op = this.accept(["+", "-"]))) {
+                const left = result, right = this.product()
+                result = op.text === "+" ? (vars) => left(vars) + right(vars) : (vars) => left(vars) - right(vars)
+            }
+            return result
+        }
+
+        private product(): Evaluator {
+            let result = this.unary()
+            let op: Token
+            while ((op = this.accept(["*", "/"]))) {
+                const left = result, right = this.unary()
+                result = op.text === "*" ? (vars) => left(vars) * right(vars) : (vars) => left(vars) / right(vars)
+            }
+            return result
+        }
+
+        private unary(): Evaluator {
+            const op = this.accept(["+", "-"])
+            if (! op) {
+                return this.power()
+            }
+            const operand = this.unary()
+            return op.text === "+" ? operand : (vars) => -operand(vars)
+        }
+
+        private power(): Evaluator {
+            const base = this.primary()
+            if (! this.accept(["^"])) {
+                return base
+            }
+            const exponent = this.unary()
+            return (vars) => Math.pow(base(vars), exponent(vars))
+        }
+
+        private primary(): Evaluator {
+            const token = this.next()
+            if (token.kind === TokenKind.Number) {
+                const value = parseFloat(token.text)
+                return () => value
+            } else if (token.kind === TokenKind.Identifier) {
+                const name = token.text
+                if (this.accept(["("])) {
+                    return this.call(token)
+                } else if (name === "x") {
+                    return (vars) => vars.x
+                } else if (name === "p") {
+                    this.usesParameter = true
+                    return (vars) => vars.p
+                } else if (Constants.hasOwnProperty(name)) {
+                    const value = Constants[name]
+                    return () => value
+                } else if (Functions.hasOwnProperty(name)) {
+                    throw new ExpressionError("Function '" + name + "' needs arguments in parentheses", token.position)
+                }
+                throw new ExpressionError("Unknown name '" + name + "'", token.position)
+            } else if (token.kind === TokenKind.Operator && token.text === "(") {
+                const result = this.conditional()
+                this.expect(")")
+                return result
+            } else if (token.kind === TokenKind.End) {
+                throw new ExpressionError("Unexpected end of expression", token.position)
+            }
+            throw new ExpressionError("Unexpected '" + token.text + "'", token.position)
+        }
+
+        // Parses the arguments of a call to the function named by the given token
+        // The opening parenthesis has already been consumed
+        private call(nameToken: Token): Evaluator {
+            const name = nameToken.text
+            if (! Functions.hasOwnProperty(name)) {
+                throw new ExpressionError("Unknown function '" + name + "'", nameToken.position)
+            }
+            const func = Functions[name]
+            let args: Evaluator[] = []
+            if (! this.accept([")"])) {
+                do {
+                    args.push(this.conditional())
+                } while (this.accept([","]))
+                this.expect(")")
+            }
+            if (args.length < func.minArgs || args.length > func.maxArgs) {
+                const expected = (func.minArgs === func.maxArgs ? "" : "at least ") + func.minArgs +
+                                 (func.minArgs === 1 ? " argument" : " arguments")
+                throw new ExpressionError("Function '" + name + "' takes " + expected, nameToken.position)
+            }
+            let values: number[] = new Array(args.length)
+            return (vars) => {
+                for (let i = 0; i < args.length; i++) {
+                    values[i] = args[i](vars)
+                }
+                return func.apply(values)
+            }
+        }
+    }
+
+    // Compiles the given expression into a potential
+    // The expression may use x (the position) and p (the potential's parameter), both in the range [0, 1)
+    // Throws an ExpressionError if the expression is not valid
+    export function compilePotentialExpression(text: string): PotentialBuilderFunc {
+        const parser = new Parser(text)
+        const evaluator = parser.parse()
+        // Potentials that ignore their parameter take just x, which hides the parameter slider
+        if (! parser.usesParameter) {
+            return (x: number) => evaluator({x: x, p: 0})
+        }
+        return (x: number, parameter: number) => evaluator({x: x, p: parameter})
+    }
+}
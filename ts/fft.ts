@@ -0,0 +1,68 @@
+/// <reference path="./complex.ts"/>
+
+// Support for the Fast Fourier Transform
+// This is the classic radix-2 Cooley-Tukey algorithm, operating in place
+// We use it as a building block for the chirp-z transform in fourierTransform()
+
+module algorithms {
+
+    // Returns the smallest power of 2 that is at least the given value
+    export function nextPowerOfTwo(value: number): number {
+        let result = 1
+        while (result < value) result *= 2
+        return result
+    }
+
+    // Computes the discrete Fourier transform of the complex values (res, ims) in place
+    // The length must be a power of 2
+    // The forward transform uses e^(-2 pi i jk / n). The inverse uses e^(+2 pi i jk / n), and divides by n.
+    export function fft(res: FloatArray, ims: FloatArray, inverse: boolean) {
+        const length = res.length
+        assert(ims.length === length, "Mismatching length")
+        assert(length > 0 && (length & (length - 1)) === 0, "FFT length must be a power of 2")
+
+        // Bit-reversal permutation
+        for (let i = 1, j = 0; i < length; i++) {
+            let bit = length >> 1
+            for (; j & bit; bit >>= 1) {
+                j ^= bit
+            }
+            j ^= bit
+            if (i < j) {
+                let tmp = res[i]; res[i] = res[j]; res[j] = tmp
+                tmp = ims[i]; ims[i] = ims[j]; ims[j] = tmp
+            }
+        }
+
+        // Butterflies, doubling the transform size each pass
+        const sign = inverse ? 1 : -1
+        for (let size = 2; size <= length; size *= 2) {
+            const halfSize = size / 2
+            const angle = sign * 2 * Math.PI / size
+            const stepRe = Math.cos(angle), stepIm = Math.sin(angle)
+            for (let start = 0; start < length; start += size) {
+                // w is the twiddle factor e^(sign * 2 pi i k / size)
+                let wRe = 1, wIm = 0
+                for (let k = 0; k < halfSize; k++) {
+                    const even = start + k, odd = even + halfSize
+                    const oddRe = res[odd] * wRe - ims[odd] * wIm
+                    const oddIm = res[odd] * wIm + ims[odd] * wRe
+                    res[odd] = res[even] - oddRe
+                    ims[odd] = ims[even] - oddIm
+                    res[even] += oddRe
+                    ims[even] += oddIm
+                    const tmpRe = wRe * stepRe - wIm * stepIm
+                    wIm = wRe * stepIm + wIm * stepRe
+                    wRe = tmpRe
+                }
+            }
+        }
+
+        if (inverse) {
+            for (let i = 0; i < length; i++) {
+                res[i] /= length
+                ims[i] /= length
+            }
+        }
+    }
+}
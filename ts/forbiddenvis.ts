@@ -0,0 +1,71 @@
+/// <reference path="../typings/threejs/three.d.ts"/>
+/// <reference path='./commonvis.ts'/>
+
+module visualizing {
+
+    // ForbiddenRegionShading shades the classically forbidden regions of the potential at an energy
+    // These are where the potential is above the energy. We fill the area between the energy
+    // and the potential (or the top of the visualizer, if the potential goes higher)
+    // Each mesh cell is filled with a rectangle, which is two triangles
+    export class ForbiddenRegionShading {
+        private geometry_ = new THREE.BufferGeometry()
+        private mesh_: THREE.Mesh
+        private positions_: Float32Array
+
+        constructor(private params_: Parameters, private group_: THREE.Group, color: number, opacity: number) {
+            // Six vertices per cell, and three coordinates per vertex
+            this.positions_ = new Float32Array(this.params_.meshDivision * 6 * 3)
+            this.geometry_.addAttribute('position', new THREE.BufferAttribute(this.positions_, 3))
+            this.geometry_.setDrawRange(0, 0)
+            const material = new THREE.MeshBasicMaterial({
+                color: color,
+                transparent: true,
+                opacity: opacity,
+                side: THREE.DoubleSide,
+                depthWrite: false
+            })
+            this.mesh_ = new THREE.Mesh(this.geometry_, material)
+            // Draw under our lines
+            this.mesh_.renderOrder = -1
+            this.group_.add(this.mesh_)
+        }
+
+        // Shade the forbidden regions of the given potential at the given energy
+        public update(potential: number[], energy: number) {
+            const cellWidth = this.params_.width / this.params_.meshDivision
+            const bottom = this.params_.convertYToVisualCoordinate(energy)
+            let vertexIdx = 0
+            const addVertex = (x: number, y: number) => {
+                this.positions_[vertexIdx++] = x
+                this.positions_[vertexIdx++] = y
+                this.positions_[vertexIdx++] = 0
+            }
+            algorithms.forbiddenRegions(potential, energy).forEach((region: algorithms.ClassicalRegion) => {
+                for (let i = region.left; i <= region.right; i++) {
+                    // Hard walls are infinitely high, and so clamp to the top
+                    const top = this.params_.convertYToVisualCoordinate(Math.min(potential[i], 1))
+                    const left = i * cellWidth, right = left + cellWidth
+                    addVertex(left, bottom)
+                    addVertex(right, bottom)
+                    addVertex(left, top)
+                    addVertex(left, top)
+                    addVertex(right, bottom)
+                    addVertex(right, top)
+                }
+            })
+            this.geometry_.setDrawRange(0, vertexIdx / 3)
+            const positions = this.geometry_.getAttribute('position') as THREE.BufferAttribute
+            positions.needsUpdate = true
+        }
+
+        public setVisible(flag: boolean) {
+            this.mesh_.visible = flag
+        }
+
+        // Remove our shading from its group, and release its resources
+        public remove() {
+            this.group_.remove(this.mesh_)
+            this.geometry_.dispose()
+        }
+    }
+}
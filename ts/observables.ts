@@ -0,0 +1,80 @@
+/// <reference path="./complex.ts"/>
+
+// Support for computing expectation values of a wavefunction
+// These are the quantities you could actually measure (on average)
+
+module algorithms {
+
+    // Expectation values and uncertainties of position, momentum and energy
+    // Positions are measured from the center of the mesh
+    export interface Observables {
+        meanX: number // <x>
+        meanX2: number // <x^2>
+        meanP: number // <p>
+        meanP2: number // <p^2>
+        deltaX: number // sqrt(<x^2> - <x>^2)
+        deltaP: number // sqrt(<p^2> - <p>^2)
+        uncertaintyProduct: number // deltaX * deltaP, which is at least 1/2 (hbar = 1)
+        meanH: number // <H>
+    }
+
+    // Helper to compute the first and second moments of a sampled complex function
+    // The samples are treated as a probability distribution |f|^2, whose coordinate
+    // at index i is (i - center) * spacing
+    function moments(samples: ComplexArray, center: number, spacing: number): {mean: number, meanSquare: number} {
+        let total = 0, mean = 0, meanSquare = 0
+        for (let i = 0; i < samples.length; i++) {
+            const probability = samples.res[i] * samples.res[i] + samples.ims[i] * samples.ims[i]
+            const coord = (i - center) * spacing
+            total += probability
+            mean += probability * coord
+            meanSquare += probability * coord * coord
+        }
+        if (total === 0) total = 1 // handle the case of a zero function by pretending the norm is 1
+        return {mean: mean / total, meanSquare: meanSquare / total}
+    }
+
+    // Computes the observables of a wavefunction
+    // psi is the position-space wavefunction, sampled with spacing dx, and potential is sampled on the same mesh
+    // phi is the momentum-space wavefunction, sampled with spacing dp and momentum zero at index phiCenter
+    // Position moments come from psi and momentum moments come from phi
+    // If phi is null, the momentum observables are NaN
+    // The energy comes from psi: <H> = integral of |psi'|^2 / 2 + V |psi|^2
+    export function computeObservables(psi: ComplexArray, phi: ComplexArray, phiCenter: number,
+                                       dx: number, dp: number, potential: number[]): Observables {
+        assert(psi.length === potential.length, "Potential and wavefunction have different lengths")
+        const length = psi.length
+        const positionMoments = moments(psi, length / 2, dx)
+        const momentumMoments = phi ? moments(phi, phiCenter, dp) : {mean: NaN, meanSquare: NaN}
+
+        // Compute <H> using finite differences for the derivative
+        // psi is zero outside the mesh
+        let norm = 0, kinetic = 0, potentialEnergy = 0
+        for (let i = 0; i < length; i++) {
+            const re = psi.res[i], im = psi.ims[i]
+            const nextRe = i + 1 < length ? psi.res[i + 1] : 0
+            const nextIm = i + 1 < length ? psi.ims[i + 1] : 0
+            const dRe = nextRe - re, dIm = nextIm - im
+            norm += re * re + im * im
+            kinetic += (dRe * dRe + dIm * dIm) / (2 * dx * dx)
+            // psi vanishes in hard walls, so they contribute nothing
+            if (! isHardWall(potential[i])) {
+                potentialEnergy += potential[i] * (re * re + im * im)
+            }
+        }
+        if (norm === 0) norm = 1
+
+        const deltaX = Math.sqrt(Math.max(0, positionMoments.meanSquare - positionMoments.mean * positionMoments.mean))
+        const deltaP = Math.sqrt(Math.max(0, momentumMoments.meanSquare - momentumMoments.mean * momentumMoments.mean))
+        return {
+            meanX: positionMoments.mean,
+            meanX2: positionMoments.meanSquare,
+            meanP: momentumMoments.mean,
+            meanP2: momentumMoments.meanSquare,
+            deltaX: deltaX,
+            deltaP: deltaP,
+            uncertaintyProduct: deltaX * deltaP,
+            meanH: (kinetic + potentialEnergy) / norm
+        }
+    }
+}
@@ -0,0 +1,58 @@
+/// <reference path='./observables.ts'/>
+/// <reference path='./wavefunctionvis.ts'/>
+
+module visualizing {
+
+    // ObservablesReadout shows expectation values of the wavefunction in an HTML panel
+    // Like the WavefunctionVisualizer, it does its work at draw time, because the
+    // observables of a superposition change in time
+    // It must be added to the animator after the WavefunctionVisualizer, so that it sees
+    // the wavefunction for the time being rendered
+    export class ObservablesReadout {
+
+        // The state tracks whether we are shown, and the potential for computing <H>
+        private state_ = new State(this.params)
+
+        constructor(public params: Parameters, public element: HTMLElement,
+                    private wavefunctionVisualizer_: WavefunctionVisualizer, animator: Redrawer) {
+            assert(this.element != null, "Observables readout could not find element")
+            this.element.addEventListener('click', () => {
+                this.state_.modify((st:State) => st.showObservables = ! st.showObservables)
+            })
+            animator.addClient(this)
+        }
+
+        // Set our global state
+        public setState(state:State) {
+            this.state_ = state
+        }
+
+        // Called by the redrawer right before it triggers rerendering
+        // Computing the observables is not cheap, so we only do it when shown
+        // The WavefunctionVisualizer has already evaluated psi and phi for this time
+        public prepareForRender() {
+            const psi = this.wavefunctionVisualizer_.psiValues()
+            const phi = this.wavefunctionVisualizer_.phiValues()
+            if (! this.state_.showObservables || psi === null) {
+                this.element.innerHTML = "&#x27E8;<i>x</i>&#x27E9; &#x27E8;<i>p</i>&#x27E9;"
+                return
+            }
+
+            // These match the Fourier transform performed by the WavefunctionVisualizer
+            const dx = this.params.maxX / this.params.meshDivision
+            const dp = dx * this.params.frequencyScale
+            const phiCenter = Math.floor(this.params.meshDivision / 2)
+            const obs = algorithms.computeObservables(psi, phi, phiCenter, dx, dp, this.state_.potential)
+
+            const format = (value: number) => isNaN(value) ? "&mdash;" : value.toFixed(2)
+            const rows = [
+                "&#x27E8;<i>x</i>&#x27E9; = " + format(obs.meanX) + " &nbsp; &Delta;<i>x</i> = " + format(obs.deltaX),
+                "&#x27E8;<i>p</i>&#x27E9; = " + format(obs.meanP) + " &nbsp; &Delta;<i>p</i> = " + format(obs.deltaP),
+                "&Delta;<i>x</i>&middot;&Delta;<i>p</i> = " + format(obs.uncertaintyProduct) + " &ge; 0.50",
+                // Match the units of the energy slider labels
+                "&#x27E8;<i>H</i>&#x27E9; = " + format(obs.meanH * this.params.energyScale)
+            ]
+            this.element.innerHTML = rows.join("<br>")
+        }
+    }
+}
@@ -0,0 +1,165 @@
+/// <reference path='./commonvis.ts'/>
+
+module visualizing {
+
+    // Whether two lists of parameters describe the same parameters
+    // Combined potentials build new lists when rebuilt (like when a sketched perturbation is edited)
+    // so we compare what is in the lists
+    function sameParameters(first: algorithms.PotentialParameterSpec[], second: algorithms.PotentialParameterSpec[]): boolean {
+        return first.length === second.length && first.every((spec, idx) => {
+            const other = second[idx]
+            return (spec.name === other.name && spec.label === other.label && spec.min === other.min &&
+                    spec.max === other.max && spec.step === other.step && spec.defaultValue === other.defaultValue &&
+                    spec.unit === other.unit && spec.primary === other.primary)
+        })
+    }
+
+    // Describes the options of a random potential that differ from the defaults, or returns "" if none do
+    // The names match the options in the Random potential menu
+    function describeRandomPotentialOptions(options: algorithms.RandomPotentialOptions): string {
+        const defaults = algorithms.DefaultRandomPotentialOptions
+        let parts: string[] = []
+        if (options.minPivotCount !== defaults.minPivotCount || options.maxPivotCount !== defaults.maxPivotCount) {
+            parts.push("pivots " + options.minPivotCount + "-" + options.maxPivotCount)
+        }
+        if (options.roughness !== defaults.roughness) {
+            parts.push("rough " + options.roughness)
+        }
+        if (options.lineWeight !== defaults.lineWeight || options.flatWeight !== defaults.flatWeight ||
+            options.bezierWeight !== defaults.bezierWeight) {
+            parts.push("joins " + options.lineWeight + ":" + options.flatWeight + ":" + options.bezierWeight)
+        }
+        if (options.minAmplitude !== defaults.minAmplitude || options.maxAmplitude !== defaults.maxAmplitude) {
+            parts.push("range " + options.minAmplitude + "-" + options.maxAmplitude)
+        }
+        return parts.join(", ")
+    }
+
+    // PotentialParameterControls shows one control for each named parameter of our potential,
+    // in an HTML panel. Each is a range input, with the parameter's label and value.
+    // The controls are rebuilt only when the parameters change, like when another potential is loaded
+    // Random potentials show their seed instead, so that they may be recreated
+    // The same seed only makes the same potential with the same options, so we show those that aren't the defaults
+    export class PotentialParameterControls {
+
+        // The state holds the potential and the values of its parameters
+        private state_ = new State(this.params)
+
+        // The parameters we have controls for, and the inputs and value readouts of those controls
+        private specs_: algorithms.PotentialParameterSpec[] = []
+        private inputs_: HTMLInputElement[] = []
+        private valueElements_: HTMLElement[] = []
+        private seedElement_: HTMLElement = null
+
+        constructor(public params: Parameters, public element: HTMLElement) {
+            assert(this.element != null, "Potential parameter controls could not find element")
+            this.element.style.display = "none"
+        }
+
+        // Set our global state
+        // Note we avoid touching inputs that already have the value, so as not to disturb an ongoing drag
+        public setState(state:State) {
+            this.state_ = state
+            const specs = algorithms.parametersOf(state.potentialBuilder)
+            if (! sameParameters(specs, this.specs_)) {
+                this.rebuildControls(specs)
+            }
+            this.specs_.forEach((spec: algorithms.PotentialParameterSpec, idx: number) => {
+                const value = algorithms.parameterValue(state.potentialParameterValues, spec)
+                if (parseFloat(this.inputs_[idx].value) !== value) {
+                    this.inputs_[idx].value = value + ''
+                }
+                this.valueElements_[idx].textContent = this.formatValue(spec, value)
+            })
+            this.setSeed(state.randomPotentialSeed, state.randomPotentialOptions)
+        }
+
+        // Show the seed of our random potential and its options, or hide it if we have none
+        private setSeed(seed: number, options: algorithms.RandomPotentialOptions) {
+            if (seed === null) {
+                if (this.seedElement_) {
+                    this.element.removeChild(this.seedElement_)
+                    this.seedElement_ = null
+                }
+            } else {
+                if (! this.seedElement_) {
+                    this.seedElement_ = document.createElement("div")
+                    this.seedElement_.className = "random-seed"
+                    this.seedElement_.title = "Load this seed again from the Random potential menu, with the same options"
+                    this.element.insertBefore(this.seedElement_, this.element.firstChild)
+                }
+                const description = describeRandomPotentialOptions(options)
+                this.seedElement_.textContent = "Random potential #" + seed + (description ? " (" + description + ")" : "")
+            }
+            this.element.style.display = (this.specs_.length > 0 || seed !== null) ? "block" : "none"
+        }
+
+        // Replace our controls with controls for the given parameters
+        private rebuildControls(specs: algorithms.PotentialParameterSpec[]) {
+            this.specs_ = specs
+            this.inputs_ = []
+            this.valueElements_ = []
+            this.seedElement_ = null
+            this.element.innerHTML = ""
+            specs.forEach((spec: algorithms.PotentialParameterSpec) => {
+                let row = document.createElement("div")
+                row.className = "parameter-control"
+
+                let label = document.createElement("span")
+                label.className = "parameter-label"
+                label.textContent = spec.label
+
+                let input = document.createElement("input")
+                input.type = "range"
+                input.min = spec.min + ''
+                input.max = spec.max + ''
+                input.step = spec.step + ''
+                input.title = spec.label
+                input.oninput = () => this.setParameterValue(spec, parseFloat(input.value))
+
+                let valueElement = document.createElement("span")
+                valueElement.className = "parameter-value"
+
+                row.appendChild(label)
+                row.appendChild(input)
+                row.appendChild(valueElement)
+                this.element.appendChild(row)
+                this.inputs_.push(input)
+                this.valueElements_.push(valueElement)
+            })
+        }
+
+        // Sets the value of the given parameter in the state
+        // The primary parameter is the potential parameter, so that sets the potential parameter too
+        // The values are replaced rather than modified, so the state notices that they changed
+        // Values the potential can't be solved with are refused, and the controls show the current values again
+        private setParameterValue(spec: algorithms.PotentialParameterSpec, value: number) {
+            const current = this.state_
+            let values: algorithms.PotentialParameterValues = {}
+            for (let key in current.potentialParameterValues) {
+                values[key] = current.potentialParameterValues[key]
+            }
+            values[spec.name] = value
+            const potentialParameter = spec.primary ? value : current.potentialParameter
+            if (! isValidPotential(this.params, potentialParameter, current.potentialBuilder, values)) {
+                this.setState(current)
+                return
+            }
+            this.state_.modify((st:State) => {
+                st.potentialParameter = potentialParameter
+                st.potentialParameterValues = values
+            })
+        }
+
+        // Formats the value of a parameter for display
+        // Energies match the units of the energy slider labels
+        private formatValue(spec: algorithms.PotentialParameterSpec, value: number): string {
+            switch (spec.unit) {
+                case algorithms.ParameterUnit.Energy:
+                    return (value * this.params.energyScale).toFixed(2)
+                default:
+                    return spec.step >= 1 ? value.toFixed(0) : value.toFixed(2)
+            }
+        }
+    }
+}
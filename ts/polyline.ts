@@ -52,6 +52,10 @@ module visualizing {
         // The output is the point 
         public abstract update(cb: (index:number) => THREE.Vector3)
 
+        // Entry point for line updates from buffers of coordinates, one value per point
+        // This avoids creating a point object for each index, which matters for our long lines
+        public abstract updateFromBuffers(xs: Float64Array, ys: Float64Array, zs: Float64Array)
+
         // Convenience function. Assuming this line is exactly 2 points long,
         // make it horizontal from X=0 -> width, with Y=yOffset and Z=0
         public makeHorizontal(width, yOffset) {
@@ -120,9 +124,9 @@ module visualizing {
         private line: THREE.Line
         constructor(length: number, material: THREE.LineBasicMaterialParameters) {
             super(length)
-            const zero = new THREE.Vector3(0, 0, 0)
+            // Each vertex gets its own vector, so that updateFromBuffers() can set it in place
             for (let i = 0; i < length; i++) {
-                this.geometry.vertices.push(zero)
+                this.geometry.vertices.push(new THREE.Vector3(0, 0, 0))
             }
             this.line = new THREE.Line(this.geometry, new THREE.LineBasicMaterial(material))
 
@@ -137,6 +141,13 @@ module visualizing {
             }
             this.geometry.verticesNeedUpdate = true
         }
+
+        public updateFromBuffers(xs: Float64Array, ys: Float64Array, zs: Float64Array) {
+            for (let i = 0; i < this.length; i++) {
+                this.geometry.vertices[i].set(xs[i], ys[i], zs[i])
+            }
+            this.geometry.verticesNeedUpdate = true
+        }
     }
 
     // Line subclass that uses shaders
@@ -219,49 +230,61 @@ module visualizing {
         }
         
         public update(cb: (index) => THREE.Vector3) {
+            for (let i = 0; i < this.length; i++) {
+                const pt: THREE.Vector3 = cb(i)
+                this.setPoint(i, pt.x, pt.y, pt.z)
+            }
+            this.markNeedsUpdate()
+        }
+
+        public updateFromBuffers(xs: Float64Array, ys: Float64Array, zs: Float64Array) {
+            for (let i = 0; i < this.length; i++) {
+                this.setPoint(i, xs[i], ys[i], zs[i])
+            }
+            this.markNeedsUpdate()
+        }
+
+        // Helper function to set the point at a given index
+        private setPoint(i: number, x: number, y: number, z: number) {
             // The attributes of a geometry are runtime dynamic
             // Do some casting shenanigans to get the types we want
             let attrs = this.geometry.attributes as any as LineBufferAttributeSet
-            
-            // Helper function to set vertices at a given index
-            // Each point is associated with six vertices
-            function setVertices(vertices: Float32Array, pointIndex:number, point:THREE.Vector3) {
-                let vertexIdx = pointIndex * 6
-                const {x, y, z} = point
-                vertices[vertexIdx++] = x
-                vertices[vertexIdx++] = y
-                vertices[vertexIdx++] = z
-                vertices[vertexIdx++] = x
-                vertices[vertexIdx++] = y
-                vertices[vertexIdx++] = z
-            }
 
-            // Fetch and update our positions, prevs, and nexts arrays
-            let positions = attrs.position.array
-            let prevs = attrs.prev.array
-            let nexts = attrs.next.array
+            // Our positions array stores the point
+            // Our nexts array is positions shifted left
+            // Our prevs array is positions shifted right
             const lastIdx = this.length - 1
-            for (let i = 0; i < this.length; i++) {
-                const pt: THREE.Vector3 = cb(i)
-                // Our positions array stores the point
-                // Our nexts array is positions shifted left
-                // Our prevs array is positions shifted right
-                setVertices(positions, i, pt)
-                if (i > 0) setVertices(nexts, i-1, pt)
-                if (i < lastIdx) setVertices(prevs, i+1, pt)
+            setVertices(attrs.position.array, i, x, y, z)
+            if (i > 0) setVertices(attrs.next.array, i-1, x, y, z)
+            if (i < lastIdx) setVertices(attrs.prev.array, i+1, x, y, z)
 
-                // The first/last points logically have no previous/next point, respectively
-                // Just duplicate the current point for them
-                if (i === 0) setVertices(prevs, i, pt)
-                if (i === lastIdx) setVertices(nexts, i, pt)
-            }
+            // The first/last points logically have no previous/next point, respectively
+            // Just duplicate the current point for them
+            if (i === 0) setVertices(attrs.prev.array, i, x, y, z)
+            if (i === lastIdx) setVertices(attrs.next.array, i, x, y, z)
+        }
 
+        // Tell GL that our positions, prevs, and nexts arrays have changed
+        private markNeedsUpdate() {
+            let attrs = this.geometry.attributes as any as LineBufferAttributeSet
             attrs.position.needsUpdate = true
             attrs.next.needsUpdate = true
             attrs.prev.needsUpdate = true    
         }
     }
 
+    // Helper function to set vertices at a given index
+    // Each point is associated with six vertices
+    function setVertices(vertices: Float32Array, pointIndex:number, x:number, y:number, z:number) {
+        let vertexIdx = pointIndex * 6
+        vertices[vertexIdx++] = x
+        vertices[vertexIdx++] = y
+        vertices[vertexIdx++] = z
+        vertices[vertexIdx++] = x
+        vertices[vertexIdx++] = y
+        vertices[vertexIdx++] = z
+    }
+
     // The attributes that our line buffer uses
     // These is a more convenient typing than what our threejs typing provides
     interface LineBufferAttributeSet {
@@ -5,10 +5,16 @@
 module algorithms {
 
     // Potentials are represented in the range [0, 1]
-    // Here's our "infinity" value
-    export const Infinityish = 1000
+    // Regions the particle cannot enter at all, like the walls of the infinite square well,
+    // are hard walls with a truly infinite potential. The solvers take the wavefunction
+    // to vanish there, which is the Dirichlet condition at the edges of the walls.
+    export const HardWall = Infinity
 
-    interface Point2 {
+    export function isHardWall(value: number): boolean {
+        return value === HardWall
+    }
+
+    export interface Point2 {
         x: number,
         y: number
     }
@@ -36,7 +42,107 @@ module algorithms {
     // and a user-settable parameter whose interpretation is up to the potential
     // (e.g. the width of the well in the case of a square well)
     // Both parameter and X are in the range [0, 1)
-    export interface PotentialBuilderFunc { (x:number, parameter:number):number }
+    // Some potentials have more parameters than that one. These are named, and described by
+    // the parameters property; their values are passed in a map keyed by name. See withParameters().
+    // Those potentials describe the user-settable parameter there too, marked as primary. Its value is
+    // still passed as the parameter, and the map holds it under its name as well
+    // Potentials that don't take the user-settable parameter hide its slider. Those that take it
+    // but may not use it, like combinations of other potentials, say so with usesParameter
+    export interface PotentialBuilderFunc {
+        (x:number, parameter:number, values?:PotentialParameterValues):number
+        parameters?: PotentialParameterSpec[]
+        usesParameter?: boolean
+    }
+
+    // Returns whether the given potential uses the user-settable parameter
+    export function usesParameter(pbf: PotentialBuilderFunc): boolean {
+        return pbf.usesParameter !== undefined ? pbf.usesParameter : pbf.length > 1
+    }
+
+    // How the value of a named parameter is shown
+    export enum ParameterUnit {
+        None, // shown as is
+        Energy // shown in the units of the energy slider labels
+    }
+
+    // Describes a named parameter of a potential, which gets its own control
+    export interface PotentialParameterSpec {
+        name: string // key in the map of values
+        label: string // shown next to the control
+        min: number
+        max: number
+        step: number // granularity of the control, e.g. 1 for whole numbers
+        defaultValue: number
+        unit: ParameterUnit
+        primary?: boolean // whether this is the user-settable parameter, which the potential's slider sets
+    }
+
+    // Values of named parameters, keyed by name
+    export interface PotentialParameterValues { [name:string]:number }
+
+    // The named parameters of potentials that have none
+    const NoParameters: PotentialParameterSpec[] = []
+
+    // Returns the named parameters of the given potential, which may be empty
+    export function parametersOf(pbf: PotentialBuilderFunc): PotentialParameterSpec[] {
+        return (pbf && pbf.parameters) || NoParameters
+    }
+
+    // Returns the primary parameter of the given potential, or null if it doesn't describe one
+    export function primaryParameterOf(pbf: PotentialBuilderFunc): PotentialParameterSpec {
+        const specs = parametersOf(pbf).filter((spec) => spec.primary)
+        return specs.length > 0 ? specs[0] : null
+    }
+
+    // Returns the default values of the named parameters of the given potential
+    export function defaultParameterValues(pbf: PotentialBuilderFunc): PotentialParameterValues {
+        let result: PotentialParameterValues = {}
+        parametersOf(pbf).forEach((spec) => result[spec.name] = spec.defaultValue)
+        return result
+    }
+
+    // Returns the value of the given named parameter, clamped to its range
+    // Missing values (for example, when values is not given at all) get the default
+    export function parameterValue(values: PotentialParameterValues, spec: PotentialParameterSpec): number {
+        if (! values || ! values.hasOwnProperty(spec.name)) {
+            return spec.defaultValue
+        }
+        return Math.min(Math.max(values[spec.name], spec.min), spec.max)
+    }
+
+    // Returns values for the named parameters of the given potential
+    // Values are carried over from the given values where the names match, else they are the defaults
+    export function carryParameterValues(pbf: PotentialBuilderFunc, values: PotentialParameterValues): PotentialParameterValues {
+        let result = defaultParameterValues(pbf)
+        for (let name in result) {
+            if (values.hasOwnProperty(name)) result[name] = values[name]
+        }
+        return result
+    }
+
+    // Returns the value of the named parameter of the given potential with the given name
+    export function namedParameterValue(pbf: PotentialBuilderFunc, values: PotentialParameterValues, name: string): number {
+        const specs = parametersOf(pbf).filter((spec) => spec.name === name)
+        assert(specs.length > 0, "Unknown parameter: " + name)
+        return parameterValue(values, specs[0])
+    }
+
+    // Helper to declare the named parameters of a potential
+    function withParameters(parameters: PotentialParameterSpec[], pbf: PotentialBuilderFunc): PotentialBuilderFunc {
+        pbf.parameters = parameters
+        return pbf
+    }
+
+    // Helper to describe the user-settable parameter of a potential
+    // Like the slider that sets it, this ranges over [0, 1]
+    function primaryParameter(name: string, label: string): PotentialParameterSpec {
+        return {name: name, label: label, min: 0, max: 1, step: 0.01, defaultValue: 0.15, unit: ParameterUnit.None, primary: true}
+    }
+
+    // Helper to describe a named parameter in energy units
+    function energyParameter(name: string, label: string, min: number, max: number, defaultValue: number): PotentialParameterSpec {
+        return {name: name, label: label, min: min, max: max, step: 0.01, defaultValue: defaultValue, unit: ParameterUnit.Energy}
+    }
 
     // Helper function. Many potentials are symmetric
     // If the parameter is larger than 0.5, mirror it around the center
@@ -44,45 +150,62 @@ module algorithms {
         return param <= 0.5 ? param : 1.0 - param   
     }
     
+    // The bottom of the harmonic oscillator, and of the infinite and finite square wells
+    // These are exported for the exact solutions of those potentials, in reference.ts
+    export const HarmonicOscillatorBaseEnergy = 0.04
+    export const SquareWellBaseEnergy = 0.05
+
+    // Returns the steepness coefficient of the harmonic oscillator with the given parameter
+    // minimum at x = 0.5
+    // formula is, when x = parameter, base + steepnessCoeff * (x * x / 2) = 1
+    // solving: steepnessCoeff = (1 - base) / (x * x / 2)
+    export function harmonicOscillatorSteepness(param: number): number {
+        const vparam = symmetrize(param) - 0.5
+        return Math.min(1E5, (1.0 - HarmonicOscillatorBaseEnergy) / (vparam * vparam / 2))
+    }
+
+    // Returns where the left wall of the infinite or finite square well with the given parameter is
+    // The well spans [widthRatio, 1 - widthRatio]
+    export function squareWellWidthRatio(param: number): number {
+        return symmetrize(param)
+    }
+
     // Classic harmonic oscillator potential
     // This looks like V = base + distanceFromCenter^2
     // The parameter adjusts the steepness
     export const SimpleHarmonicOscillator = (x:number, param:number) => {
-        const steepness = symmetrize(param)
-        const baseEnergy = 0.04
         // x is a value in [0, 1)
-        // minimum at x = 0.5
-        // formula is, when x = parameter, base + steepnessCoeff * (x * x / 2) = 1
-        // solving: steepnessCoeff = (1 - base) / (x * x / 2)
-        const offsetToCenter = 0.5
-        const vparam = steepness - offsetToCenter
-        const steepnessCoeff = Math.min(1E5, (1.0 - baseEnergy) / (vparam * vparam / 2))
-        const vx = x - offsetToCenter
-        return baseEnergy + steepnessCoeff * (vx * vx / 2.0)
+        const vx = x - 0.5
+        return HarmonicOscillatorBaseEnergy + harmonicOscillatorSteepness(param) * (vx * vx / 2.0)
     }
     
     // Classic infinite square well
     // The parameter is (half of) the width of the well
     export const InfiniteSquareWell = (x:number, param: number) => {
-        const widthRatio = symmetrize(param)
-        const baseEnergy = 0.05
+        const widthRatio = squareWellWidthRatio(param)
+        const baseEnergy = SquareWellBaseEnergy
         // x is a value in [0, 1)
-        if (x < widthRatio || x > 1.0 - widthRatio) {
-            return Infinityish
+        // The walls include their edges, so the wavefunction vanishes exactly at x = widthRatio
+        // and x = 1 - widthRatio, like the exact solution
+        if (x <= widthRatio || x >= 1.0 - widthRatio) {
+            return HardWall
         }
         return baseEnergy
     }
     
-    // Like infinite square well, but it tops out at .8 instead of infinity
-    export const FiniteSquareWell = (x:number, param: number) => {
-        const widthRatio = symmetrize(param)
-        const baseEnergy = 0.05
+    // Like infinite square well, but it tops out at base + depth (.8 by default) instead of infinity
+    // The parameter is (half of) the width of the well
+    const FiniteSquareWellWidth = primaryParameter("width", "Width")
+    const FiniteSquareWellDepth = energyParameter("depth", "Depth", 0.1, 0.95, 0.75)
+    export const FiniteSquareWell = withParameters([FiniteSquareWellWidth, FiniteSquareWellDepth], (x:number, param: number, values?: PotentialParameterValues) => {
+        const widthRatio = squareWellWidthRatio(param)
+        const baseEnergy = SquareWellBaseEnergy
         // x is a value in [0, 1)
         if (x < widthRatio || x > 1.0 - widthRatio) {
-            return .8
+            return baseEnergy + parameterValue(values, FiniteSquareWellDepth)
         }
         return baseEnergy
-    }
+    })
     
     // Two adjacent square wells
     export const TwoSquareWells = (x:number, param:number) => {
@@ -92,9 +215,9 @@ module algorithms {
         const barrierWidthFactor = 1.0 / 10.0
         //const rightWellWidthFactor = 1.0 - (leftWellWidthFactor + barrierWidthFactor) 
         
-        // If we're outside both wells, return "infinity""
+        // If we're outside both wells, we're in a wall
         if (x < widthFactor || x >= 1.0 - widthFactor) {
-            return Infinityish
+            return HardWall
         }
         const intervalLength = 1.0 - 2 * widthFactor
         let vx = (x - widthFactor) / intervalLength
@@ -115,21 +238,200 @@ module algorithms {
         const stepEnergy = 0.4
         // x is a value in [0, 1)
         if (x < widthRatio || x > 1.0 - widthRatio) {
-            return Infinityish
+            return HardWall
         }
         return x < 0.5 ? stepEnergy : baseEnergy
     }
 
+    // Morse potential, the textbook model of a vibrating diatomic molecule
+    // This looks like V = base + depth * (1 - e^(-(x - center) / width))^2
+    // It is steep on the left and levels off at base + depth on the right,
+    // so its energy levels get closer together as they approach the top
+    // The parameter adjusts the width of the well
+    const MorseWidth = primaryParameter("width", "Width")
+    const MorseDepth = energyParameter("depth", "Depth", 0.1, 0.95, 0.75)
+    export const MorsePotential = withParameters([MorseWidth, MorseDepth], (x:number, param: number, values?: PotentialParameterValues) => {
+        const width = Math.max(symmetrize(param), .02)
+        const baseEnergy = 0.05
+        const depth = parameterValue(values, MorseDepth)
+        const center = 0.35
+        const falloff = 1.0 - Math.exp(-(x - center) / width)
+        // The left side grows exponentially, so cap it; far above the top, the particle never gets there anyway
+        // Much higher, and integrating in from the left edge would overflow
+        return Math.min(baseEnergy + depth * falloff * falloff, 10)
+    })
+
+    // Poschl-Teller potential, a smooth well with exactly solvable energies
+    // This looks like V = base + depth * (1 - 1 / cosh^2((x - 0.5) / width))
+    // The parameter adjusts the width of the well
+    const PoschlTellerWidth = primaryParameter("width", "Width")
+    const PoschlTellerDepth = energyParameter("depth", "Depth", 0.1, 0.95, 0.75)
+    export const PoschlTellerPotential = withParameters([PoschlTellerWidth, PoschlTellerDepth], (x:number, param: number, values?: PotentialParameterValues) => {
+        const width = Math.max(symmetrize(param), .01)
+        const baseEnergy = 0.05
+        const depth = parameterValue(values, PoschlTellerDepth)
+        const cosh = (Math.exp((x - 0.5) / width) + Math.exp(-(x - 0.5) / width)) / 2
+        return baseEnergy + depth * (1 - 1 / (cosh * cosh))
+    })
+
+    // The "quantum bouncer:" a particle falling onto a floor under gravity
+    // The floor is a hard wall on the left, and the potential rises linearly to the right
+    // The parameter adjusts how far we go before reaching the top, i.e. the strength of gravity
+    export const LinearBouncer = (x:number, param: number) => {
+        const floor = 0.05
+        const baseEnergy = 0.05
+        const distanceToTop = 0.3 + 1.2 * symmetrize(param)
+        if (x <= floor) {
+            return HardWall
+        }
+        return baseEnergy + (1.0 - baseEnergy) * (x - floor) / distanceToTop
+    }
+
+    // Quartic double well, the smooth version of two square wells
+    // This looks like V = base + height * (u^2 - 1)^2, with u = (x - 0.5) / separation
+    // so its minima are at 0.5 +/- separation, with a barrier of the given height between them
+    // The parameter adjusts the separation of the wells
+    const DoubleWellSeparation = primaryParameter("separation", "Separation")
+    const DoubleWellBarrierHeight = energyParameter("barrierHeight", "Barrier", 0.05, 0.9, 0.3)
+    export const QuarticDoubleWell = withParameters([DoubleWellSeparation, DoubleWellBarrierHeight], (x:number, param: number, values?: PotentialParameterValues) => {
+        const separation = 0.05 + symmetrize(param) / 2
+        const baseEnergy = 0.05
+        const barrierHeight = parameterValue(values, DoubleWellBarrierHeight)
+        const u = (x - 0.5) / separation
+        return baseEnergy + barrierHeight * (u * u - 1) * (u * u - 1)
+    })
+
+    // Like the quartic double well, but tilted by a bias, so that the right well is higher
+    // The bias is the difference between the bottoms of the wells (approximately, since the tilt moves them)
+    // The parameter adjusts the separation of the wells
+    const AsymmetricDoubleWellBias = energyParameter("bias", "Bias", 0, 0.4, 0.075)
+    export const AsymmetricDoubleWell = withParameters([DoubleWellSeparation, AsymmetricDoubleWellBias, DoubleWellBarrierHeight],
+                                                       (x:number, param: number, values?: PotentialParameterValues) => {
+        const separation = 0.05 + symmetrize(param) / 2
+        const baseEnergy = 0.05
+        const barrierHeight = parameterValue(values, DoubleWellBarrierHeight)
+        const tilt = parameterValue(values, AsymmetricDoubleWellBias) / 2
+        const u = (x - 0.5) / separation
+        // The left well bottoms out near u = -1, where the tilt contributes -tilt
+        return baseEnergy + tilt + barrierHeight * (u * u - 1) * (u * u - 1) + tilt * u
+    })
+
+    // Kronig-Penney lattice: a row of square wells separated by square barriers, in a box
+    // Its energy levels group into bands, one level per well in each band
+    // The parameter adjusts the width of the barriers, as a fraction of each cell
+    const KronigPenneyCellCount: PotentialParameterSpec = {
+        name: "cellCount", label: "Wells", min: 2, max: 10, step: 1, defaultValue: 5, unit: ParameterUnit.None
+    }
+    const KronigPenneyBarrierWidth = primaryParameter("barrierWidth", "Width")
+    const KronigPenneyBarrierHeight = energyParameter("barrierHeight", "Barrier", 0.1, 0.95, 0.75)
+    export const KronigPenney = withParameters([KronigPenneyBarrierWidth, KronigPenneyCellCount, KronigPenneyBarrierHeight],
+                                               (x:number, param: number, values?: PotentialParameterValues) => {
+        const wallWidth = 0.05
+        const cellCount = Math.round(parameterValue(values, KronigPenneyCellCount))
+        const baseEnergy = 0.05
+        const barrierEnergy = baseEnergy + parameterValue(values, KronigPenneyBarrierHeight)
+        const barrierFraction = 0.05 + symmetrize(param) / 2
+        if (x <= wallWidth || x >= 1.0 - wallWidth) {
+            return HardWall
+        }
+        // Each cell is a well followed by a barrier, except the last which has the wall instead
+        const cellPosition = (x - wallWidth) / (1.0 - 2 * wallWidth) * cellCount
+        const cell = Math.floor(cellPosition)
+        const inBarrier = cell + 1 < cellCount && cellPosition - cell >= 1.0 - barrierFraction
+        return inBarrier ? barrierEnergy : baseEnergy
+    })
+
+    // Dirac delta wells cannot be represented on a mesh, so we approximate them with narrow, deep wells
+    // A delta well of strength alpha has a single bound state, alpha^2 / 2 below the top
+    const DeltaWellTopEnergy = 0.85
+    const DeltaWellBottomEnergy = 0.05
+
+    // A single (approximate) Dirac delta well, at the center
+    // The parameter adjusts the width of the well, which sets its strength
+    export const DeltaWell = (x:number, param: number) => {
+        const halfWidth = (0.005 + symmetrize(param) / 10) / 2
+        return Math.abs(x - 0.5) < halfWidth ? DeltaWellBottomEnergy : DeltaWellTopEnergy
+    }
+
+    // Two (approximate) Dirac delta wells, placed symmetrically about the center
+    // Their bound states split into an even and an odd state, which get closer as the wells separate
+    // The parameter adjusts the separation of the wells
+    export const DoubleDeltaWell = (x:number, param: number) => {
+        const halfWidth = 0.01
+        const halfGap = 0.02 + symmetrize(param) / 2
+        const distance = Math.abs(Math.abs(x - 0.5) - halfGap)
+        return distance < halfWidth ? DeltaWellBottomEnergy : DeltaWellTopEnergy
+    }
+
+    // The scattering potentials below are open on both sides, so that a wave can come in
+    // from the left and leave on the right
+
+    // A single step up, at the center
+    // The parameter adjusts the height of the step
+    export const PotentialStep = (x:number, param: number) => {
+        const stepEnergy = 0.05 + symmetrize(param)
+        const baseEnergy = 0.05
+        return x < 0.5 ? baseEnergy : stepEnergy
+    }
+
+    // A single square barrier, at the center
+    // The parameter adjusts the width of the barrier
+    const SquareBarrierWidth = primaryParameter("width", "Width")
+    const SquareBarrierHeight = energyParameter("height", "Height", 0.05, 0.95, 0.45)
+    export const SquareBarrier = withParameters([SquareBarrierWidth, SquareBarrierHeight], (x:number, param: number, values?: PotentialParameterValues) => {
+        const halfWidth = symmetrize(param) / 5
+        const baseEnergy = 0.05
+        const barrierEnergy = baseEnergy + parameterValue(values, SquareBarrierHeight)
+        return Math.abs(x - 0.5) < halfWidth ? barrierEnergy : baseEnergy
+    })
+
+    // Two thin square barriers, with a well between them
+    // This exhibits resonant tunnelling at the energies of the well's (quasi) bound states
+    // The parameter adjusts the separation of the barriers
+    export const DoubleBarrier = (x:number, param: number) => {
+        const halfGap = 0.05 + symmetrize(param) / 5
+        const barrierWidth = 0.03
+        const baseEnergy = 0.05
+        const barrierEnergy = 0.5
+        const distance = Math.abs(x - 0.5)
+        return (distance >= halfGap && distance < halfGap + barrierWidth) ? barrierEnergy : baseEnergy
+    }
+
+    // How to resolve a sketch with several values at some x, where its stroke doubled back
+    export enum SketchOverlap {
+        Latest, // the most recently drawn part of the stroke wins
+        Lowest,
+        Highest
+    }
+
+    // Options for turning a sketch into a potential
+    export interface SketchOptions {
+        overlap: SketchOverlap
+        smoothing: number // in [0, 1]; how widely we smooth the sketch, with 1 being MaxSketchSmoothingWidth
+        symmetrize: boolean // whether we average the sketch with its mirror image about the center
+        extendEdges: boolean // whether we extend the ends of the sketch flat to the edges, instead of walling them off
+    }
+
+    export const DefaultSketchOptions: SketchOptions = {
+        overlap: SketchOverlap.Latest,
+        smoothing: 0,
+        symmetrize: false,
+        extendEdges: false
+    }
+
+    // Standard deviation of the Gaussian we smooth sketches with, at full smoothing, as a fraction of the width
+    const MaxSketchSmoothingWidth = .04
+
     // Potential built from sampling at a list of points
     // The parameter is unused
-    export function SampledPotential(samples:Point2[]) : PotentialBuilderFunc {
+    export function SampledPotential(samples:Point2[], overlap: SketchOverlap = SketchOverlap.Highest) : PotentialBuilderFunc {
         assert(samples.length > 0)
 
         // Note that the samples are likely multivalued!
         // Thus we can't be too clever and try to binary search or anything
         // Hence this ugly naive algorithm. Given an X location, find all the
         // sample pairs that are on either side of it, lerp them, and then
-        // pick the largest
+        // pick one according to the overlap
         return (x:number) => {
             let result = 0
             let foundSample = false
@@ -138,24 +440,236 @@ module algorithms {
                 const afterSign = x > samples[i].x
                 if (beforeSign !== afterSign) {
                     // We're between these two points
-                    // Pick the largest such value
+                    // Later pairs were drawn later
                     let lerpedSample = smoothstep(samples[i-1], samples[i], x)
-                    result = Math.max(result, lerpedSample)
+                    if (! foundSample || overlap === SketchOverlap.Latest) {
+                        result = lerpedSample
+                    } else if (overlap === SketchOverlap.Lowest) {
+                        result = Math.min(result, lerpedSample)
+                    } else {
+                        result = Math.max(result, lerpedSample)
+                    }
                     foundSample = true
                 }
             }
             if (! foundSample) {
                 // this corresponds to starting or ending the sample midway through our box
-                // flush it to "infinity"
-                return Infinityish
+                // wall it off
+                return HardWall
             } else {
                 return result
             }
         }
     }
 
-    // Potential built "randomly"
-    export function RandomPotential() : PotentialBuilderFunc {
+    // Potential built from the editable control points of a sketch
+    // The points must be sorted by x. We interpolate linearly between them, and wall off the potential
+    // outside of them, like SampledPotential
+    // The parameter is unused
+    export function SketchPotential(points: Point2[]): PotentialBuilderFunc {
+        assert(points.length >= 2, "Sketches need at least two control points")
+        const first = points[0], last = points[points.length - 1]
+        return (x: number) => {
+            if (x < first.x || x > last.x) {
+                return HardWall
+            }
+            const idx = binarySearch(points, x)
+            const point = points[idx], next = points[Math.min(idx + 1, points.length - 1)]
+            if (next.x <= point.x) {
+                return point.y
+            }
+            return point.y + (next.y - point.y) * (x - point.x) / (next.x - point.x)
+        }
+    }
+
+    // Returns the control points for a sketch, given the sketch's samples
+    // We sample the sketch at the centers of sampleCount evenly spaced cells, processing it according
+    // to the options, and then keep only the points we need to stay within the tolerance of it
+    // Returns an empty list if the sketch is too small to make a potential
+    export function sketchControlPoints(samples: Point2[], sampleCount: number, tolerance: number,
+                                        options: SketchOptions = DefaultSketchOptions): Point2[] {
+        if (samples.length < 2) {
+            return []
+        }
+        const potential = SampledPotential(samples, options.overlap)
+        let values: number[] = []
+        for (let i = 0; i < sampleCount; i++) {
+            const y = potential((i + 0.5) / sampleCount, 0)
+            values.push(isHardWall(y) ? HardWall : Math.min(Math.max(y, 0), 1))
+        }
+
+        // Where only one side of the mirror image has a value, take that value
+        if (options.symmetrize) {
+            for (let i = 0, j = sampleCount - 1; i < j; i++, j--) {
+                if (isHardWall(values[i])) {
+                    values[i] = values[j]
+                } else if (isHardWall(values[j])) {
+                    values[j] = values[i]
+                } else {
+                    values[i] = values[j] = (values[i] + values[j]) / 2
+                }
+            }
+        }
+
+        const firstIdx = firstIndexWhere(values, (value) => ! isHardWall(value))
+        if (firstIdx < 0) {
+            return []
+        }
+        const lastIdx = sampleCount - 1 - firstIndexWhere(values.slice().reverse(), (value) => ! isHardWall(value))
+        if (options.extendEdges) {
+            for (let i = 0; i < firstIdx; i++) values[i] = values[firstIdx]
+            for (let i = lastIdx + 1; i < sampleCount; i++) values[i] = values[lastIdx]
+        }
+
+        if (options.smoothing > 0) {
+            values = smoothSketch(values, options.smoothing * MaxSketchSmoothingWidth * sampleCount)
+        }
+
+        // Symmetric sketches may have a gap in the middle, which the control points bridge
+        let points: Point2[] = []
+        values.forEach((value: number, idx: number) => {
+            if (! isHardWall(value)) {
+                points.push({x: (idx + 0.5) / sampleCount, y: value})
+            }
+        })
+        if (options.extendEdges && points.length > 0) {
+            // Reach all the way to the edges, so that nothing is walled off
+            points[0].x = 0
+            points[points.length - 1].x = 1
+        }
+        const result = simplifyPolyline(points, tolerance)
+        return result.length >= 2 ? result : []
+    }
+
+    // Smooths the values of a sketch with a Gaussian of the given standard deviation, in cells
+    // Walled off cells stay walled off, and do not contribute to their neighbors
+    function smoothSketch(values: number[], sigma: number): number[] {
+        const radius = Math.ceil(3 * sigma)
+        let weights: number[] = []
+        for (let k = 0; k <= radius; k++) {
+            weights.push(Math.exp(-k * k / (2 * sigma * sigma)))
+        }
+        return values.map((value: number, idx: number) => {
+            if (isHardWall(value)) {
+                return value
+            }
+            let total = 0, totalWeight = 0
+            for (let k = -radius; k <= radius; k++) {
+                const neighbor = values[idx + k]
+                if (neighbor !== undefined && ! isHardWall(neighbor)) {
+                    total += weights[Math.abs(k)] * neighbor
+                    totalWeight += weights[Math.abs(k)]
+                }
+            }
+            return total / totalWeight
+        })
+    }
+
+    // Returns the index of the first value that passes the test, or -1 if none do
+    function firstIndexWhere(values: number[], test: (value: number) => boolean): number {
+        for (let i = 0; i < values.length; i++) {
+            if (test(values[i])) return i
+        }
+        return -1
+    }
+
+    // Simplifies a polyline, keeping only the points needed to stay within the tolerance of it
+    // This is the Ramer-Douglas-Peucker algorithm. The first and last points are always kept
+    export function simplifyPolyline(points: Point2[], tolerance: number): Point2[] {
+        if (points.length <= 2) {
+            return points.slice()
+        }
+        let keep: boolean[] = points.map(() => false)
+        keep[0] = keep[points.length - 1] = true
+        let ranges = [[0, points.length - 1]]
+        while (ranges.length > 0) {
+            const [start, end] = ranges.pop()
+            const p0 = points[start], p1 = points[end]
+            const dx = p1.x - p0.x, dy = p1.y - p0.y
+            const length = Math.sqrt(dx*dx + dy*dy)
+            let farthestIdx = -1, farthestDistance = tolerance
+            for (let i = start + 1; i < end; i++) {
+                const ex = points[i].x - p0.x, ey = points[i].y - p0.y
+                const distance = length > 0 ? Math.abs(dx*ey - dy*ex) / length : Math.sqrt(ex*ex + ey*ey)
+                if (distance > farthestDistance) {
+                    farthestIdx = i
+                    farthestDistance = distance
+                }
+            }
+            if (farthestIdx >= 0) {
+                keep[farthestIdx] = true
+                ranges.push([start, farthestIdx], [farthestIdx, end])
+            }
+        }
+        let result: Point2[] = []
+        for (let i = 0; i < points.length; i++) {
+            if (keep[i]) result.push(points[i])
+        }
+        return result
+    }
+
+    // A seedable pseudorandom number generator (mulberry32)
+    // The same seed always produces the same sequence, so that a random potential may be recreated
+    export class SeededRandom {
+        private state_: number
+
+        constructor(seed: number) {
+            this.state_ = seed | 0
+        }
+
+        // Returns the next number, in the range [0, 1)
+        public next(): number {
+            this.state_ = (this.state_ + 0x6D2B79F5) | 0
+            let t = multiply32(this.state_ ^ (this.state_ >>> 15), 1 | this.state_)
+            t = (t + multiply32(t ^ (t >>> 7), 61 | t)) ^ t
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+        }
+    }
+
+    // 32 bit integer multiplication, like Math.imul()
+    // Doubles would lose the low bits of the full product
+    function multiply32(a: number, b: number): number {
+        const low = (a & 0xFFFF) * b
+        const high = (((a >>> 16) * b) & 0xFFFF) << 16
+        return (low + high) | 0
+    }
+
+    // Largest seed we pick, so that seeds are short enough to write down
+    export const MaxRandomSeed = 99999
+
+    // Returns a new seed for a random potential, in the range [1, MaxRandomSeed]
+    export function randomSeed(): number {
+        return 1 + Math.floor(Math.random() * MaxRandomSeed)
+    }
+
+    // Options for generating random potentials
+    // A random potential is a list of pivots, joined by lines, flat steps or bezier curves
+    export interface RandomPotentialOptions {
+        minPivotCount: number // number of pivots, before those too close together are thrown out
+        maxPivotCount: number
+        roughness: number // in [0, 1]; rougher potentials allow pivots to be closer together
+        lineWeight: number // relative frequencies of the kinds of join
+        flatWeight: number
+        bezierWeight: number
+        minAmplitude: number // range of pivot energies, within [0, 1]
+        maxAmplitude: number
+    }
+
+    // Note we bias towards bezier, since it looks the most interesting
+    export const DefaultRandomPotentialOptions: RandomPotentialOptions = {
+        minPivotCount: 8,
+        maxPivotCount: 24,
+        roughness: .5,
+        lineWeight: 1,
+        flatWeight: 1,
+        bezierWeight: 3,
+        minAmplitude: 0,
+        maxAmplitude: 1
+    }
+
+    // Potential built "randomly", from the given seed
+    // The same seed and options always build the same potential
+    export function RandomPotential(seed: number, options: RandomPotentialOptions = DefaultRandomPotentialOptions) : PotentialBuilderFunc {
         // Hackish?
         interface Pivot {
             x: number
@@ -169,18 +683,28 @@ module algorithms {
             return omt * (omt*p0 + t*p1) + t*(omt*p1 + t*p2)
         }
 
+        const random = new SeededRandom(seed)
+        const minAmplitude = Math.min(Math.max(options.minAmplitude, 0), 1)
+        const maxAmplitude = Math.min(Math.max(options.maxAmplitude, minAmplitude), 1)
+        const amplitude = (r: number) => minAmplitude + (maxAmplitude - minAmplitude) * r
+
         // Determine how many pivots
-        const minPivotCount = 8, maxPivotCount = 24
-        const pivotCount = Math.floor(Math.random() * (maxPivotCount - minPivotCount) + minPivotCount)
-
-        // Make a random join type
-        // Note we bias towards bezier, since it looks the most interesting
-        function randomJoinType() {
-            switch ((Math.random() * 5) | 0) {
-                case 0: return "line"
-                case 1: return "flat"
-                default: return "bezier"
-            }
+        const minPivotCount = Math.max(1, Math.round(options.minPivotCount))
+        const maxPivotCount = Math.max(minPivotCount, Math.round(options.maxPivotCount))
+        const pivotCount = Math.floor(random.next() * (maxPivotCount - minPivotCount) + minPivotCount)
+
+        // Make a random join type, according to the weights
+        // Joins that must not be flat pick from the other kinds
+        function randomJoinType(allowFlat: boolean = true) {
+            const lineWeight = Math.max(options.lineWeight, 0)
+            const flatWeight = allowFlat ? Math.max(options.flatWeight, 0) : 0
+            const bezierWeight = Math.max(options.bezierWeight, 0)
+            const total = lineWeight + flatWeight + bezierWeight
+            if (total <= 0) return "line"
+            const r = random.next() * total
+            if (r < lineWeight) return "line"
+            if (r < lineWeight + flatWeight) return "flat"
+            return "bezier"
         }
 
         // Build pivots
@@ -189,17 +713,18 @@ module algorithms {
         pivots.push({x: 0, y: 1, joinType: "line"})
         for (let i=0; i < pivotCount; i++) {
             pivots.push({
-                x: Math.random() * .95,
-                y: Math.pow(Math.random(), 1.5),
+                x: random.next() * .95,
+                y: amplitude(Math.pow(random.next(), 1.5)),
                 joinType: randomJoinType(),
-                control: Math.random()
+                control: amplitude(random.next())
             })
         }
         pivots.sort((p1:Pivot, p2:Pivot) => p1.x - p2.x)
 
         // Throw out pivots that are too close to their neighbor
+        const minSpacing = .15 - .1 * Math.min(Math.max(options.roughness, 0), 1)
         for (let i=1; i < pivots.length; i++) {
-            if (pivots[i].x - pivots[i-1].x < .1) {
+            if (pivots[i].x - pivots[i-1].x < minSpacing) {
                 pivots.splice(i, 1)
                 i--
             }
@@ -207,8 +732,8 @@ module algorithms {
 
         // Join from second to last to last pivot must not be flat
         let secondToLast = pivots[pivots.length - 2] 
-        while (secondToLast.joinType == "flat") {
-            secondToLast.joinType = randomJoinType()
+        if (secondToLast && secondToLast.joinType == "flat") {
+            secondToLast.joinType = randomJoinType(false)
         }
         pivots.push({x: 1, y: 1, joinType: "line"})
 
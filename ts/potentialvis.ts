@@ -23,6 +23,19 @@ module visualizing {
         // When sketching, the "graph paper" mesh effect
         private sketchGrid_: THREE.GridHelper
 
+        // When editing a sketched potential, the handles on its control points
+        // These share their geometry and material, and are reused as the number of points changes
+        private handles_: THREE.Mesh[] = []
+        private handleGeometry_: THREE.CircleGeometry
+        private handleMaterial_: THREE.MeshBasicMaterial
+
+        // The index of the control point whose handle is being dragged, or -1
+        private draggedHandle_ = -1
+
+        // The handle pressed last, and when, so that we can recognize double clicks
+        private lastPressedHandle_ = -1
+        private lastPressTime_ = 0
+
         // The state of the visualizer
         private state_: State = new State(this.params)
 
@@ -57,6 +70,10 @@ module visualizing {
             this.sketchGrid_.renderOrder = -9999
             this.sketchGrid_.rotation.x = Math.PI/2
             this.group.add(this.sketchGrid_)
+
+            // Construct what our handles share
+            this.handleGeometry_ = new THREE.CircleGeometry(this.params.sketchHandleRadius, 16)
+            this.handleMaterial_ = new THREE.MeshBasicMaterial({ color: 0xFF00FF, depthTest: false })
         }
 
         // Entry point for all state updates 
@@ -66,6 +83,7 @@ module visualizing {
             this.setDrawTextShown(state.sketching && state.sketchLocations.length == 0)
             this.redrawPotentialLine()
             this.redrawSketchLine() 
+            this.redrawHandles()
         }
 
         // Called from state update, update the line representing the sketch
@@ -83,6 +101,24 @@ module visualizing {
             }
         }
 
+        // Called from state update, update the handles on the control points of a sketched potential
+        // We hide the handles while sketching, and when they can't be edited
+        private redrawHandles() {
+            const points = this.handlesEditable() ? this.state_.sketchControlPoints : []
+            while (this.handles_.length < points.length) {
+                let handle = new THREE.Mesh(this.handleGeometry_, this.handleMaterial_)
+                handle.renderOrder = 1
+                this.group.add(handle)
+                this.handles_.push(handle)
+            }
+            this.handles_.forEach((handle: THREE.Mesh, idx: number) => {
+                handle.visible = idx < points.length
+                if (handle.visible) {
+                    handle.position.copy(this.visualLocationOf(points[idx]))
+                }
+            })
+        }
+
         // Update the line representing our potential
         // Called from state update
         private redrawPotentialLine() {
@@ -92,7 +128,8 @@ module visualizing {
             if (hasPotential) {
                 assert(mesh.length == this.params.meshDivision, "Bad potential length")
                 this.potentialLine_.update((index: number) => {
-                    const value = mesh[index]
+                    // Hard walls are infinitely high; draw them well above the top instead
+                    const value = algorithms.isHardWall(mesh[index]) ? this.params.hardWallDrawnPotential : mesh[index]
                     const x = this.params.xCenterForMeshIndex(index)
                     const y = this.params.convertYToVisualCoordinate(value)
                     const z = 0
@@ -109,56 +146,234 @@ module visualizing {
 
         // Draggable implementation
         // Here the user has started dragging
-        public dragStart(raycasterUnused: THREE.Raycaster) {
+        // When sketching, this starts a new sketch
+        // Otherwise, we drag a control point's handle, or insert a control point on the potential line
+        public dragStart(raycaster: THREE.Raycaster) {
             if (this.state_.sketching) {
                 this.state_.modify((st:State) => {
                     st.sketchLocations = []
                 })
+                return
+            }
+            const location = this.visualLocation(raycaster)
+            this.draggedHandle_ = location ? this.handleIndexAt(location) : -1
+            if (this.draggedHandle_ >= 0) {
+                // Double clicking a handle deletes its control point
+                const now = Date.now()
+                const doubleClicked = (this.draggedHandle_ === this.lastPressedHandle_ &&
+                                       now - this.lastPressTime_ < this.params.doubleClickInterval)
+                this.lastPressedHandle_ = doubleClicked ? -1 : this.draggedHandle_
+                this.lastPressTime_ = now
+                if (doubleClicked) {
+                    this.deleteControlPoint(this.draggedHandle_)
+                    this.draggedHandle_ = -1
+                }
+            } else if (location) {
+                this.draggedHandle_ = this.insertControlPointAt(location)
+                this.lastPressedHandle_ = -1
             }
         }
 
         // The user dragged to a new location
-        // Append that location to the state
+        // When sketching, append that location to the state
+        // Otherwise move the dragged control point there
         public dragged(raycaster: THREE.Raycaster) {
-            if (! this.state_.sketching) return
-            let intersections = raycaster.intersectObject(this.background_, false)
-            if (intersections.length > 0) {
-                const where = intersections[0].point
-                const newLoc = vector3(where.x + this.params.width / 2, where.y + this.params.height / 2, 0) 
+            const location = this.visualLocation(raycaster)
+            if (location === null) return
+            if (this.state_.sketching) {
                 this.state_.modify((st:State) => {
-                    st.sketchLocations = st.sketchLocations.concat([newLoc]) 
+                    st.sketchLocations = st.sketchLocations.concat([location]) 
                 })
+            } else if (this.draggedHandle_ >= 0) {
+                this.moveControlPoint(this.draggedHandle_, location)
             }
         }
 
-        // The user stopped dragging. Clear the sketch line and build a potential from it!
+        // The user stopped dragging
+        // When sketching, clear the sketch line and build a potential from it!
         public dragEnd() {
-            // Do nothing unless we're sketching
+            this.draggedHandle_ = -1
+
+            // Do nothing else unless we're sketching
             if (! this.state_.sketching) return
             
             // We are going to construct the new potential from the drag location
-            // We do this with a "SampledPotential" potential builder, which builds a potential
-            // by interpolating between sampled points.
+            // We do this by reducing the drag locations to a list of control points, which the user may edit,
+            // and building a "SketchPotential" that interpolates between them
             // Our drag locations have x in the range [0, params.width), and y in [0, params.height)
             // map to the range [0, 1], and flip the y coordinate so that zero is at the bottom
             let samples = this.state_.sketchLocations.map((vec:THREE.Vector3) => {
                 return {x: vec.x / this.params.width, y: 1.0 - vec.y / this.params.height}
             })
+            const points = this.processSketch(samples, this.state_.sketchOptions)
             this.state_.modify((st:State) => {
                 st.sketching = false
                 st.sketchLocations = []
-                // If we have no samples, it's because the user didn't draw any
+                // If we have no points, it's because the user didn't draw (enough)
                 // Don't replace the potential in that case 
-                if (samples.length > 0) { 
-                    st.potentialBuilder = algorithms.SampledPotential(samples)
+                if (points.length > 0) { 
+                    st.potentialBuilder = this.sketchedPotential(st, points)
+                    st.sketchControlPoints = points
+                    st.sketchSamples = samples
+                    st.potentialParameterValues = algorithms.carryParameterValues(st.potentialBuilder,
+                                                                                  st.potentialParameterValues)
+                    st.randomPotentialSeed = null
                 }
             })
         }
 
+        // Set the options for processing sketches
+        // If our potential is sketched, we process what was drawn again with them
+        public setSketchOptions(options: algorithms.SketchOptions) {
+            const points = this.processSketch(this.state_.sketchSamples, options)
+            this.state_.modify((st:State) => {
+                st.sketchOptions = options
+                if (points.length > 0) {
+                    st.sketchControlPoints = points
+                    st.potentialBuilder = this.sketchedPotential(st, points)
+                }
+            })
+        }
+
+        // Returns the control points for the given samples of a sketch
+        private processSketch(samples: algorithms.Point2[], options: algorithms.SketchOptions): algorithms.Point2[] {
+            return algorithms.sketchControlPoints(samples, this.params.meshDivision, this.params.sketchTolerance, options)
+        }
+
+        // Returns the potential built from the given control points of our sketch
+        // Perturbations are sketched over a base potential, and combined with it
+        private sketchedPotential(st: State, points: algorithms.Point2[]): algorithms.PotentialBuilderFunc {
+            const sketch = algorithms.SketchPotential(points)
+            return st.sketchBase ? algorithms.perturbedPotential(st.sketchBase, sketch) : sketch
+        }
+
+        // Replace the control points of our sketch, and the potential built from them
+        private setControlPoints(points: algorithms.Point2[]) {
+            this.state_.modify((st:State) => {
+                st.sketchControlPoints = points
+                st.potentialBuilder = this.sketchedPotential(st, points)
+            })
+        }
+
+        // Move the control point with the given index to the given visual location
+        // Points may not pass their neighbors, so that they stay sorted, nor leave the visualizer
+        private moveControlPoint(idx: number, location: THREE.Vector3) {
+            const points = this.state_.sketchControlPoints
+            const minSpacing = 1 / this.params.meshDivision
+            const minX = idx > 0 ? points[idx - 1].x + minSpacing : 0
+            const maxX = idx + 1 < points.length ? points[idx + 1].x - minSpacing : 1
+            const x = Math.min(Math.max(location.x / this.params.width, minX), maxX)
+            // The handle is where the point is displayed, which for perturbations is blended with the base
+            const blend = this.sketchBlendAt(x)
+            const displayedY = this.params.convertYFromVisualCoordinate(location.y)
+            const moved = {x: x, y: Math.min(Math.max(blend.base + (displayedY - blend.base) / blend.strength, 0), 1)}
+            this.setControlPoints(points.map((point, i) => i === idx ? moved : point))
+        }
+
+        // Delete the control point with the given index
+        // Sketches keep at least two points
+        private deleteControlPoint(idx: number) {
+            const points = this.state_.sketchControlPoints
+            if (points.length > 2) {
+                this.setControlPoints(points.slice(0, idx).concat(points.slice(idx + 1)))
+            }
+        }
+
+        // Insert a control point on the potential line at the given visual location, if it is near enough
+        // The new point is on the line, so the potential doesn't change until it is dragged
+        // Returns the index of the new point, or -1 if we didn't insert one
+        private insertControlPointAt(location: THREE.Vector3): number {
+            const idx = this.insertionIndexAt(location)
+            if (idx >= 0) {
+                const points = this.state_.sketchControlPoints
+                const x = location.x / this.params.width
+                const inserted = {x: x, y: algorithms.SketchPotential(points)(x, 0)}
+                this.setControlPoints(points.slice(0, idx).concat([inserted], points.slice(idx)))
+            }
+            return idx
+        }
+
+        // Returns the index of the control point whose handle is at the given visual location, or -1
+        // We pick the nearest, if handles overlap
+        private handleIndexAt(location: THREE.Vector3): number {
+            const hitRadius = this.params.sketchHandleRadius * 1.5
+            let result = -1, nearest = hitRadius * hitRadius
+            if (! this.handlesEditable()) return result
+            this.state_.sketchControlPoints.forEach((point: algorithms.Point2, idx: number) => {
+                const distanceSquared = this.visualLocationOf(point).distanceToSquared(location)
+                if (distanceSquared <= nearest) {
+                    result = idx
+                    nearest = distanceSquared
+                }
+            })
+            return result
+        }
+
+        // If the given visual location is on the line between two control points,
+        // returns the index that a control point inserted there would have, else -1
+        private insertionIndexAt(location: THREE.Vector3): number {
+            const points = this.state_.sketchControlPoints
+            const x = location.x / this.params.width
+            if (! this.handlesEditable() || x <= points[0].x || x >= points[points.length - 1].x) {
+                return -1
+            }
+            const lineY = this.visualLocationOf({x: x, y: algorithms.SketchPotential(points)(x, 0)}).y
+            if (Math.abs(lineY - location.y) > this.params.sketchHandleRadius * 1.5) {
+                return -1
+            }
+            let idx = 0
+            while (points[idx].x <= x) idx++
+            return idx
+        }
+
+        // Returns where a control point is displayed. The point is in the range [0, 1]
+        // Perturbations are displayed blended with their base, as the potential is
+        private visualLocationOf(point: algorithms.Point2): THREE.Vector3 {
+            const blend = this.sketchBlendAt(point.x)
+            const displayedY = blend.base + blend.strength * (point.y - blend.base)
+            return vector3(point.x * this.params.width, this.params.convertYToVisualCoordinate(displayedY), 0)
+        }
+
+        // Sketched perturbations make the potential base + strength * (sketch - base)
+        // Returns the base and strength at x, to convert between sketched and displayed values
+        // Plain sketches (and perturbations where their base is a hard wall) are displayed as sketched
+        private sketchBlendAt(x: number): {base: number, strength: number} {
+            const st = this.state_
+            const base = st.sketchBase ? st.sketchBase(x, st.potentialParameter, st.potentialParameterValues) : 0
+            if (! st.sketchBase || algorithms.isHardWall(base)) {
+                return {base: 0, strength: 1}
+            }
+            return {base: base, strength: algorithms.perturbationStrength(st.potentialBuilder, st.potentialParameterValues)}
+        }
+
+        // Whether the control points of our sketch may be edited
+        // Perturbations with no strength don't change the potential, so there is nothing to see of them to edit
+        private handlesEditable(): boolean {
+            const st = this.state_
+            if (st.sketching || st.sketchControlPoints.length < 2) {
+                return false
+            }
+            return ! st.sketchBase || algorithms.perturbationStrength(st.potentialBuilder, st.potentialParameterValues) > 0
+        }
+
+        // Returns the visual location that the raycaster hits, or null if it misses us
+        private visualLocation(raycaster: THREE.Raycaster): THREE.Vector3 {
+            let intersections = raycaster.intersectObject(this.background_, false)
+            if (intersections.length === 0) return null
+            const where = intersections[0].point
+            return vector3(where.x + this.params.width / 2, where.y + this.params.height / 2, 0)
+        }
+
         // Perform hit testing
+        // When editing a sketch, only its handles and its line are draggable
         public hitTestDraggable(raycaster: THREE.Raycaster): ui.Draggable {
-            let intersections = raycaster.intersectObject(this.background_, false)
-            return intersections.length > 0 ? this : null
+            const location = this.visualLocation(raycaster)
+            if (location === null) {
+                return null
+            } else if (this.state_.sketching) {
+                return this
+            }
+            return (this.handleIndexAt(location) >= 0 || this.insertionIndexAt(location) >= 0) ? this : null
         }
     }
 }
@@ -0,0 +1,184 @@
+/// <reference path="./complex.ts"/>
+
+// Support for solving the time-dependent Schrodinger equation directly,
+// rather than by rotating the phases of time-independent solutions
+
+module algorithms {
+
+    // Propagates a wavefunction forwards in time using the Crank-Nicolson method
+    // The Hamiltonian on our mesh is H = -1/2 d^2/dx^2 + V, with psi zero outside the mesh
+    // Each step solves
+    //    (1 + i*dt/2*H) psi(t + dt) = (1 - i*dt/2*H) psi(t)
+    // The matrix on the left is tridiagonal, so this is a linear-time solve.
+    // The step operator is unitary, so the norm of psi is conserved (up to rounding).
+    // In hard walls, psi is held at zero: their rows of the matrix become psi = 0.
+    export class CrankNicolsonPropagator {
+        // The current wavefunction, and the time it corresponds to
+        public values: ComplexArray
+        public time: number = 0
+
+        // The wavefunction at time zero, used when time runs backwards
+        private initialValues_: ComplexArray
+
+        // Diagonal of the Hamiltonian (kinetic plus potential), and the off-diagonal value
+        private diagonal_: FloatArray
+        private offDiagonal_: number
+
+        // The left-hand matrix is constant, so we precompute its Thomas algorithm factorization
+        // upperPrime_ is the modified upper diagonal, and pivotRecips_ are the reciprocals of the pivots
+        private upperPrime_: ComplexArray
+        private pivotRecips_: ComplexArray
+
+        // Scratch space for the right-hand side
+        private rhs_: ComplexArray
+
+        // Limit on how many steps a single advanceTo() may take, so we don't freeze the UI
+        // after a long pause. If we hit it, we fall behind and catch up on later calls.
+        private static MaxStepsPerAdvance = 2000
+
+        constructor(initialValues: ComplexArray, potentialMesh: number[], public dx: number, public dt: number) {
+            const length = initialValues.length
+            assert(length >= 3, "Wavefunction is too small")
+            assert(potentialMesh.length === length, "Potential and wavefunction have different lengths")
+            assert(dx > 0 && dt > 0, "Non-positive dx or dt")
+            this.initialValues_ = initialValues.slice()
+            this.rhs_ = ComplexArray.zeros(length)
+
+            // Second derivative via finite differences: (psi[i+1] - 2 psi[i] + psi[i-1]) / dx^2
+            // Walls get a placeholder diagonal, since their rows are replaced
+            const kinetic = 1.0 / (dx * dx)
+            this.offDiagonal_ = -0.5 * kinetic
+            this.diagonal_ = new Float64Array(length)
+            let walls: boolean[] = []
+            for (let i = 0; i < length; i++) {
+                walls.push(isHardWall(potentialMesh[i]))
+                this.diagonal_[i] = walls[i] ? 0 : kinetic + potentialMesh[i]
+                if (walls[i]) {
+                    this.initialValues_.res[i] = 0
+                    this.initialValues_.ims[i] = 0
+                }
+            }
+            this.values = this.initialValues_.slice()
+
+            // Factor the left-hand matrix (1 + i*dt/2*H)
+            // Its diagonal is 1 + i*h*diag, and its off-diagonals are i*h*off, where h = dt/2
+            // We run the forward sweep of the Thomas algorithm, remembering the pivots
+            const h = dt / 2
+            const offIm = h * this.offDiagonal_ // off-diagonal is purely imaginary
+            this.upperPrime_ = ComplexArray.zeros(length)
+            this.pivotRecips_ = ComplexArray.zeros(length)
+            let prevUpperRe = 0, prevUpperIm = 0
+            for (let i = 0; i < length; i++) {
+                if (walls[i]) {
+                    // psi = 0 here: a zero reciprocal pivot zeroes d', and a zero upperPrime decouples
+                    // us from our neighbors
+                    prevUpperRe = prevUpperIm = 0
+                    this.pivotRecips_.res[i] = this.pivotRecips_.ims[i] = 0
+                    this.upperPrime_.res[i] = this.upperPrime_.ims[i] = 0
+                    continue
+                }
+                // pivot = diag - off * upperPrime[i-1]
+                // off * upperPrime = (i*offIm) * (re + i*im) = -offIm*im + i*offIm*re
+                const pivotRe = 1 + offIm * prevUpperIm
+                const pivotIm = h * this.diagonal_[i] - offIm * prevUpperRe
+                const pivotMag2 = pivotRe * pivotRe + pivotIm * pivotIm
+                const recipRe = pivotRe / pivotMag2
+                const recipIm = -pivotIm / pivotMag2
+                this.pivotRecips_.res[i] = recipRe
+                this.pivotRecips_.ims[i] = recipIm
+
+                // upperPrime = off / pivot = (i*offIm) * recip
+                prevUpperRe = -offIm * recipIm
+                prevUpperIm = offIm * recipRe
+                this.upperPrime_.res[i] = prevUpperRe
+                this.upperPrime_.ims[i] = prevUpperIm
+            }
+        }
+
+        // Advance our wavefunction by a single time step
+        public step() {
+            const length = this.values.length
+            const h = this.dt / 2
+            const offIm = h * this.offDiagonal_
+            const psiRe = this.values.res, psiIm = this.values.ims
+            const rhsRe = this.rhs_.res, rhsIm = this.rhs_.ims
+
+            // Compute the right-hand side (1 - i*h*H) psi
+            // Note psi is zero outside the mesh
+            for (let i = 0; i < length; i++) {
+                // H psi at i, which is real-coefficient times complex
+                let hpsiRe = this.diagonal_[i] * psiRe[i]
+                let hpsiIm = this.diagonal_[i] * psiIm[i]
+                if (i > 0) {
+                    hpsiRe += this.offDiagonal_ * psiRe[i - 1]
+                    hpsiIm += this.offDiagonal_ * psiIm[i - 1]
+                }
+                if (i + 1 < length) {
+                    hpsiRe += this.offDiagonal_ * psiRe[i + 1]
+                    hpsiIm += this.offDiagonal_ * psiIm[i + 1]
+                }
+                // psi - i*h*(H psi)
+                rhsRe[i] = psiRe[i] + h * hpsiIm
+                rhsIm[i] = psiIm[i] - h * hpsiRe
+            }
+
+            // Forward sweep: d'[i] = (rhs[i] - off * d'[i-1]) / pivot[i]
+            // We store d' in place of the rhs
+            const recipRe = this.pivotRecips_.res, recipIm = this.pivotRecips_.ims
+            let prevRe = 0, prevIm = 0
+            for (let i = 0; i < length; i++) {
+                // off * prev = (i*offIm) * (prevRe + i*prevIm)
+                const numRe = rhsRe[i] + offIm * prevIm
+                const numIm = rhsIm[i] - offIm * prevRe
+                prevRe = numRe * recipRe[i] - numIm * recipIm[i]
+                prevIm = numRe * recipIm[i] + numIm * recipRe[i]
+                rhsRe[i] = prevRe
+                rhsIm[i] = prevIm
+            }
+
+            // Back substitution: psi[i] = d'[i] - upperPrime[i] * psi[i+1]
+            const upperRe = this.upperPrime_.res, upperIm = this.upperPrime_.ims
+            let nextRe = 0, nextIm = 0
+            for (let i = length - 1; i >= 0; i--) {
+                const re = rhsRe[i] - (upperRe[i] * nextRe - upperIm[i] * nextIm)
+                const im = rhsIm[i] - (upperRe[i] * nextIm + upperIm[i] * nextRe)
+                psiRe[i] = nextRe = re
+                psiIm[i] = nextIm = im
+            }
+            this.time += this.dt
+        }
+
+        // Advance our wavefunction to (approximately) the given time
+        // If the time is earlier than our current time, we start over from time zero
+        public advanceTo(time: number) {
+            if (time < this.time) {
+                this.reset()
+            }
+            let steps = Math.floor((time - this.time) / this.dt)
+            steps = Math.min(steps, CrankNicolsonPropagator.MaxStepsPerAdvance)
+            for (let i = 0; i < steps; i++) {
+                this.step()
+            }
+        }
+
+        // Return to our initial wavefunction at time zero
+        public reset() {
+            this.values = this.initialValues_.slice()
+            this.time = 0
+        }
+
+        // Returns the integral of |psi|^2 over all space, which should stay 1 if it started at 1
+        public norm(): number {
+            let result = 0
+            for (let i = 0; i < this.values.length; i++) {
+                result += this.values.res[i] * this.values.res[i] + this.values.ims[i] * this.values.ims[i]
+            }
+            return result * this.dx
+        }
+
+        // Returns the complex value at a given index at our current time
+        public valueAt(x: number): Complex {
+            return this.values.at(x)
+        }
+    }
+}
@@ -0,0 +1,223 @@
+/// <reference path="./algorithms.ts"/>
+/// <reference path="./potentials.ts"/>
+
+// Exact solutions for some of our built-in potentials
+// These let us check the numerical solvers, and show students when the numerics can be trusted
+// Everything is in the project's units: positions are fractions of the mesh in [0, 1),
+// the mesh spans maxX (hbar = m = 1), and energies are in the same units as the potential
+
+module reference {
+
+    const assert = algorithms.assert
+
+    // The exact bound states of a potential
+    export interface AnalyticSolution {
+        // How many bound states there are; Infinity if unlimited
+        count: number
+
+        // Returns the n'th eigen-energy (from 0)
+        energy(n: number): number
+
+        // Returns the n'th eigenfunction at the given position, a fraction of the mesh in [0, 1)
+        // Eigenfunctions are real, and normalized over all space in units of maxX
+        psi(n: number, x: number): number
+    }
+
+    // The errors of a numerical solution, compared to the exact one
+    export interface ReferenceErrors {
+        n: number // which exact eigenstate we compared against
+        energyError: number // |E - E_n|
+        l2Error: number // square root of the integral of |psi - psi_n|^2
+    }
+
+    // Simple harmonic oscillator, for algorithms.SimpleHarmonicOscillator
+    // V = base + c (x - 1/2)^2 / 2 with x a fraction of the mesh. In physical units X = x * maxX,
+    // this is base + w^2 (X - maxX/2)^2 / 2 with w = sqrt(c) / maxX
+    // So E_n = base + w (n + 1/2), and psi_n is a Hermite function
+    export function SimpleHarmonicOscillator(param: number, maxX: number): AnalyticSolution {
+        const baseEnergy = algorithms.HarmonicOscillatorBaseEnergy
+        const omega = Math.sqrt(algorithms.harmonicOscillatorSteepness(param)) / maxX
+        return {
+            count: Infinity,
+            energy: (n: number) => baseEnergy + omega * (n + 0.5),
+            psi: (n: number, x: number) => {
+                // Use the recurrence for normalized Hermite functions, which avoids overflow
+                //   h_(k+1) = sqrt(2/(k+1)) y h_k - sqrt(k/(k+1)) h_(k-1)
+                const y = Math.sqrt(omega) * (x - 0.5) * maxX
+                let prev = 0
+                let cur = Math.pow(Math.PI, -0.25) * Math.exp(-y * y / 2)
+                for (let k = 0; k < n; k++) {
+                    const next = Math.sqrt(2 / (k + 1)) * y * cur - Math.sqrt(k / (k + 1)) * prev
+                    prev = cur
+                    cur = next
+                }
+                // Scale to physical units, and flip odd states so they are positive on the left
+                const sign = (n % 2 === 0) ? 1 : -1
+                return sign * Math.pow(omega, 0.25) * cur
+            }
+        }
+    }
+
+    // Infinite square well, for algorithms.InfiniteSquareWell
+    // The well has width a = (1 - 2 * widthRatio) * maxX, so E_n = base + (n+1)^2 pi^2 / (2 a^2)
+    // The numerical potential has hard walls, so its states vanish at the walls like these
+    export function InfiniteSquareWell(param: number, maxX: number): AnalyticSolution {
+        const widthRatio = algorithms.squareWellWidthRatio(param)
+        const baseEnergy = algorithms.SquareWellBaseEnergy
+        const width = (1.0 - 2 * widthRatio) * maxX
+        return {
+            count: Infinity,
+            energy: (n: number) => baseEnergy + (n + 1) * (n + 1) * Math.PI * Math.PI / (2 * width * width),
+            psi: (n: number, x: number) => {
+                if (x < widthRatio || x > 1.0 - widthRatio) {
+                    return 0
+                }
+                const offset = (x - widthRatio) * maxX
+                return Math.sqrt(2 / width) * Math.sin((n + 1) * Math.PI * offset / width)
+            }
+        }
+    }
+
+    // Finite square well, for algorithms.FiniteSquareWell, with walls depth above its base
+    // With half-width b, wavenumber k = sqrt(2(E - base)) inside and decay rate kappa = sqrt(2(V0 - E))
+    // outside, the energies solve the transcendental equations
+    //    k tan(kb) = kappa (even states), -k cot(kb) = kappa (odd states)
+    // In terms of z = kb and z0 = b sqrt(2(V0 - base)), the n'th state has z in (n pi/2, (n+1) pi/2),
+    // and z < z0. We find each by bisection.
+    export function FiniteSquareWell(param: number, depth: number, maxX: number): AnalyticSolution {
+        const widthRatio = algorithms.squareWellWidthRatio(param)
+        const baseEnergy = algorithms.SquareWellBaseEnergy
+        const wallEnergy = baseEnergy + depth
+        const halfWidth = (0.5 - widthRatio) * maxX
+        const z0 = halfWidth * Math.sqrt(2 * (wallEnergy - baseEnergy))
+
+        // The function whose root we want, for the n'th state
+        // These are the equations above multiplied through by cos(z) or sin(z), so they are continuous
+        const mismatch = (n: number, z: number) => {
+            const outside = Math.sqrt(Math.max(0, z0 * z0 - z * z))
+            return (n % 2 === 0) ? z * Math.sin(z) - outside * Math.cos(z) : z * Math.cos(z) + outside * Math.sin(z)
+        }
+
+        // Find the z of each bound state
+        let zs: number[] = []
+        for (let n = 0; n * Math.PI / 2 < z0; n++) {
+            let lower = n * Math.PI / 2, upper = Math.min((n + 1) * Math.PI / 2, z0)
+            const lowerSign = mismatch(n, lower) > 0
+            if ((mismatch(n, upper) > 0) === lowerSign) {
+                break // no root: the state would be above the walls
+            }
+            for (let iter = 0; iter < 200 && upper - lower > 1.0E-14; iter++) {
+                const mid = 0.5 * (lower + upper)
+                if ((mismatch(n, mid) > 0) === lowerSign) {
+                    lower = mid
+                } else {
+                    upper = mid
+                }
+            }
+            zs.push(0.5 * (lower + upper))
+        }
+
+        const energy = (n: number) => {
+            assert(n >= 0 && n < zs.length, "No such bound state")
+            const k = zs[n] / halfWidth
+            return baseEnergy + k * k / 2
+        }
+        return {
+            count: zs.length,
+            energy: energy,
+            psi: (n: number, x: number) => {
+                const even = (n % 2 === 0)
+                const k = zs[n] / halfWidth
+                const kappa = Math.sqrt(2 * (wallEnergy - energy(n)))
+                const kb = zs[n]
+
+                // Normalize analytically: the inside contributes b +- sin(2kb)/(2k),
+                // and each tail contributes (value at the wall)^2 / (2 kappa)
+                const wall = even ? Math.cos(kb) : Math.sin(kb)
+                const norm = halfWidth + (even ? 1 : -1) * Math.sin(2 * kb) / (2 * k) + wall * wall / kappa
+                // Choose the sign so the state is positive on the left
+                const sign = (even ? wall : -wall) < 0 ? -1 : 1
+                const amplitude = sign / Math.sqrt(norm)
+
+                const offset = (x - 0.5) * maxX
+                const distance = Math.abs(offset)
+                let value: number
+                if (distance <= halfWidth) {
+                    value = even ? Math.cos(k * offset) : Math.sin(k * offset)
+                } else {
+                    const side = (even || offset > 0) ? 1 : -1
+                    value = side * wall * Math.exp(-kappa * (distance - halfWidth))
+                }
+                return amplitude * value
+            }
+        }
+    }
+
+    // Returns the exact solution for the given potential builder, parameter and named parameter values,
+    // or null if we don't have one
+    export function analyticSolutionFor(pbf: algorithms.PotentialBuilderFunc, param: number,
+                                        values: algorithms.PotentialParameterValues, maxX: number): AnalyticSolution {
+        if (pbf === algorithms.SimpleHarmonicOscillator) {
+            return SimpleHarmonicOscillator(param, maxX)
+        } else if (pbf === algorithms.InfiniteSquareWell) {
+            return InfiniteSquareWell(param, maxX)
+        } else if (pbf === algorithms.FiniteSquareWell) {
+            return FiniteSquareWell(param, algorithms.namedParameterValue(pbf, values, "depth"), maxX)
+        }
+        return null
+    }
+
+    // Returns the index of the exact eigenstate whose energy is closest to the given energy,
+    // or -1 if there are no bound states
+    export function nearestEigenstate(solution: AnalyticSolution, energy: number): number {
+        let result = -1
+        for (let n = 0; n < solution.count; n++) {
+            if (result >= 0 && Math.abs(solution.energy(n) - energy) > Math.abs(solution.energy(result) - energy)) {
+                break // energies are increasing, so we won't get any closer
+            }
+            result = n
+        }
+        return result
+    }
+
+    // Samples the n'th exact eigenstate on a mesh of the given length, as a wavefunction
+    // that can be compared with (and mixed like) our numerical ones
+    export function sampleEigenstate(solution: AnalyticSolution, n: number, length: number, maxX: number): algorithms.TimeIndependentWavefunction {
+        assert(n >= 0 && n < solution.count, "No such bound state")
+        let values = algorithms.ComplexArray.zeros(length)
+        for (let i = 0; i < length; i++) {
+            values.res[i] = solution.psi(n, i / length)
+        }
+        const energy = solution.energy(n)
+        const md = {
+            energy: energy,
+            leftTurningPoint: 0,
+            rightTurningPoint: length - 1,
+            leftDerivativeDiscontinuity: 0,
+            rightDerivativeDiscontinuity: 0
+        }
+        return new algorithms.TimeIndependentWavefunction(values, maxX / length, md)
+    }
+
+    // Compares a numerical wavefunction against the exact eigenstate closest to it in energy
+    // Returns null if there are no exact bound states
+    export function compareWithReference(psi: algorithms.TimeIndependentWavefunction, solution: AnalyticSolution): ReferenceErrors {
+        const n = nearestEigenstate(solution, psi.md.energy)
+        if (n < 0) {
+            return null
+        }
+        const length = psi.values.length
+        const exact = sampleEigenstate(solution, n, length, psi.dx * length)
+        let sum = 0
+        for (let i = 0; i < length; i++) {
+            const dRe = psi.values.res[i] - exact.values.res[i]
+            const dIm = psi.values.ims[i] - exact.values.ims[i]
+            sum += dRe * dRe + dIm * dIm
+        }
+        return {
+            n: n,
+            energyError: Math.abs(psi.md.energy - exact.md.energy),
+            l2Error: Math.sqrt(sum * psi.dx)
+        }
+    }
+}
@@ -0,0 +1,130 @@
+/// <reference path="./algorithms.ts"/>
+
+// Support for scattering states
+// Unlike bound states, these are not zero outside the mesh. Instead we imagine the potential
+// continuing forever at its edge values, and a plane wave coming in from the left.
+// Part of it is reflected back to the left, and part of it is transmitted to the right.
+
+module algorithms {
+
+    // The result of solving for a scattering state
+    // The wavefunction is scaled so that the incoming wave has amplitude 1
+    // transmission and reflection are the fractions of the incoming probability current
+    // that are transmitted and reflected; they sum to 1
+    export interface ScatteringSolution {
+        wavefunction: TimeIndependentWavefunction
+        transmission: number
+        reflection: number
+    }
+
+    // Solves for the scattering state at the given energy, with a wave incoming from the left
+    // Returns null if the energy is not above the potential on the left edge, since then
+    // there is no incoming wave
+    // Also returns null if the potential has hard walls, since nothing gets past those
+    // On the right we impose a purely outgoing wave (or a decaying one, if the energy is below
+    // the potential there). We integrate leftwards with Numerov, and then decompose the result
+    // on the left into incoming and reflected waves.
+    export function solveScattering(potentialMesh: number[], energy: number, maxX: number): ScatteringSolution {
+        const potential = potentialMesh
+        const length = potential.length
+        assert(length >= 3, "PotentialMesh is too small")
+        if (potential.some(isHardWall)) {
+            return null
+        }
+        const dx = maxX / length
+        const ddx12 = dx * dx / 12.0
+
+        // F function used by Numerov, as in numerov()
+        const F = (x: number) => 1.0 - ddx12 * 2. * (potential[x] - energy)
+
+        // In a region of constant potential, Numerov's recurrence
+        //   psi[i+1] + psi[i-1] = ((12 - 10F) / F) psi[i]
+        // is solved by e^(iqx) with cos(q dx) = (6 - 5F) / F
+        // Using this q instead of the continuum wavenumber makes our plane waves exact solutions
+        // of the recurrence, so transmission and reflection sum to 1
+        const cosQdx = (x: number) => (6. - 5. * F(x)) / F(x)
+        const leftCos = cosQdx(0), rightCos = cosQdx(length - 1)
+        if (! (leftCos < 1)) {
+            // No propagating wave on the left
+            return null
+        }
+
+        // Set up the wave on the right, at the last two points
+        let raw = ComplexArray.zeros(length)
+        let res = raw.res, ims = raw.ims
+        const rightPropagates = rightCos < 1
+        let rightQdx = 0
+        if (rightPropagates) {
+            // Outgoing wave e^(iqx)
+            rightQdx = Math.acos(rightCos)
+            for (let i = length - 2; i < length; i++) {
+                res[i] = Math.cos(rightQdx * i)
+                ims[i] = Math.sin(rightQdx * i)
+            }
+        } else {
+            // Decaying wave e^(-kappa x), with cosh(kappa dx) = (6 - 5F) / F
+            const kappaDx = Math.log(rightCos + Math.sqrt(rightCos * rightCos - 1))
+            res[length - 1] = 1
+            res[length - 2] = Math.exp(kappaDx)
+        }
+
+        // Integrate leftwards. F is real, so the real and imaginary parts are independent.
+        for (let i = length - 2; i > 0; i--) {
+            res[i - 1] = ((12. - F(i) * 10.) * res[i] - F(i + 1) * res[i + 1]) / F(i - 1)
+            ims[i - 1] = ((12. - F(i) * 10.) * ims[i] - F(i + 1) * ims[i + 1]) / F(i - 1)
+        }
+
+        // Decompose the left edge into A e^(iqx) + B e^(-iqx), with x = 0 at index 0
+        //   psi[0] = A + B
+        //   psi[1] = A e^(i q dx) + B e^(-i q dx)
+        // so A = (psi[1] - psi[0] e^(-i q dx)) / (2i sin(q dx)) and B = psi[0] - A
+        const leftQdx = Math.acos(leftCos)
+        const psi0 = new Complex(res[0], ims[0]), psi1 = new Complex(res[1], ims[1])
+        const numerator = psi1.added(psi0.multiplied(Complex.exponential(-leftQdx)).multipliedByReal(-1))
+        const denominator = new Complex(0, 2 * Math.sin(leftQdx))
+        const denomMag2 = denominator.magnitudeSquared()
+        const A = numerator.multiplied(new Complex(denominator.re / denomMag2, -denominator.im / denomMag2))
+        const B = psi0.added(A.multipliedByReal(-1))
+        const aMag2 = A.magnitudeSquared()
+        assert(aMag2 > 0, "No incoming wave")
+
+        // Scale so the incoming wave has amplitude 1
+        const aRecip = new Complex(A.re / aMag2, -A.im / aMag2)
+        let values = ComplexArray.zeros(length)
+        for (let i = 0; i < length; i++) {
+            values.res[i] = res[i] * aRecip.re - ims[i] * aRecip.im
+            values.ims[i] = res[i] * aRecip.im + ims[i] * aRecip.re
+        }
+
+        // The conserved current of the Numerov recurrence in a constant region is
+        // proportional to F^2 sin(q dx) |amplitude|^2
+        const reflection = B.magnitudeSquared() / aMag2
+        let transmission = 0
+        if (rightPropagates) {
+            const rightF = F(length - 1), leftF = F(0)
+            transmission = (rightF * rightF * Math.sin(rightQdx)) / (leftF * leftF * Math.sin(leftQdx)) / aMag2
+        }
+
+        let md = {
+            energy: energy,
+            leftTurningPoint: 0,
+            rightTurningPoint: length - 1,
+            leftDerivativeDiscontinuity: 0,
+            rightDerivativeDiscontinuity: 0
+        }
+        return {
+            wavefunction: new TimeIndependentWavefunction(values, dx, md),
+            transmission: transmission,
+            reflection: reflection
+        }
+    }
+
+    // Computes the transmission coefficient T(E) at each of the given energies
+    // Energies with no incoming wave have a transmission of 0
+    export function transmissionSpectrum(potentialMesh: number[], maxX: number, energies: number[]): number[] {
+        return energies.map((energy: number) => {
+            const solution = solveScattering(potentialMesh, energy, maxX)
+            return solution ? solution.transmission : 0
+        })
+    }
+}
@@ -0,0 +1,111 @@
+/// <reference path="./algorithms.ts"/>
+
+// Support for remembering solutions, so that we don't solve the same energy twice
+// Dragging one energy slider changes only that energy, and toggling things like the
+// scattering view back and forth returns to energies we have already solved
+// The bound states that wavepackets are built from are remembered the same way
+
+module algorithms {
+
+    // The position-space wavefunctions solved for some inputs
+    // Solving at an energy gives one wavefunction, and finding bound states gives one for each state found
+    export interface Solution {
+        psis: TimeIndependentWavefunction[]
+    }
+
+    // Returns a 32 bit hash of the given values, by running FNV-1a over their bits
+    export function hashFloatArray(values: FloatArray): number {
+        const words = new Uint32Array(values.buffer, values.byteOffset, 2 * values.length)
+        let hash = 0x811C9DC5
+        for (let i = 0; i < words.length; i++) {
+            hash ^= words[i]
+            // Multiply by the FNV prime 2^24 + 2^8 + 0x93, without losing the low bits
+            hash += (hash << 1) + (hash << 4) + (hash << 7) + (hash << 8) + (hash << 24)
+            hash >>>= 0
+        }
+        return hash
+    }
+
+    // A cache with a fixed capacity, which evicts the least recently used entry when full
+    // Keys are strings. Capacities are small, so we simply keep the keys in order of use.
+    class LRUCache<T> {
+        private values_: {[key: string]: T} = {}
+        private keys_: string[] = [] // least recently used first
+
+        constructor(public capacity: number) {
+            assert(capacity > 0, "LRUCache must have a positive capacity")
+        }
+
+        // Returns the value for the given key, or null if we don't have it
+        // This marks the key as most recently used
+        public get(key: string): T {
+            if (! this.values_.hasOwnProperty(key)) {
+                return null
+            }
+            this.keys_.splice(this.keys_.indexOf(key), 1)
+            this.keys_.push(key)
+            return this.values_[key]
+        }
+
+        // Stores the value for the given key, evicting the least recently used entry if we're full
+        public put(key: string, value: T) {
+            if (this.values_.hasOwnProperty(key)) {
+                this.keys_.splice(this.keys_.indexOf(key), 1)
+            } else if (this.keys_.length >= this.capacity) {
+                delete this.values_[this.keys_.shift()]
+            }
+            this.values_[key] = value
+            this.keys_.push(key)
+        }
+
+        public size(): number {
+            return this.keys_.length
+        }
+    }
+
+    // SolutionCache remembers Solutions by their inputs
+    // Entries are keyed by a hash of the potential mesh, together with maxX and a description
+    // of what was solved and how (e.g. the energy and the solver name).
+    // Since different meshes may share a hash, each entry also remembers its mesh, which we compare on lookup.
+    // Meshes are held by reference, so they must not be modified once they have been used here.
+    export class SolutionCache {
+        private entries_: LRUCache<{potentialMesh: FloatArray, solution: Solution}>
+
+        // How many times we found, or did not find, a solution
+        public hits = 0
+        public misses = 0
+
+        constructor(capacity: number) {
+            this.entries_ = new LRUCache<{potentialMesh: FloatArray, solution: Solution}>(capacity)
+        }
+
+        // Returns the solution for the given inputs, calling solve() to produce it if we don't have it
+        public solutionFor(potentialMesh: FloatArray, maxX: number, description: string, solve: () => Solution): Solution {
+            const key = [hashFloatArray(potentialMesh), potentialMesh.length, maxX, description].join(":")
+            const entry = this.entries_.get(key)
+            if (entry && sameFloatArrays(entry.potentialMesh, potentialMesh)) {
+                this.hits++
+                return entry.solution
+            }
+            this.misses++
+            const solution = solve()
+            this.entries_.put(key, {potentialMesh: potentialMesh, solution: solution})
+            return solution
+        }
+
+        // Returns the number of solutions we hold
+        public size(): number {
+            return this.entries_.size()
+        }
+    }
+
+    // Helper to compare two FloatArrays element by element
+    function sameFloatArrays(a: FloatArray, b: FloatArray): boolean {
+        if (a === b) return true
+        if (a.length !== b.length) return false
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] !== b[i]) return false
+        }
+        return true
+    }
+}
@@ -0,0 +1,133 @@
+/// <reference path="./solverworker.ts"/>
+
+module visualizing {
+
+    // The URL of our own script, which is what the worker runs
+    // This is only available while the script is first loading, so grab it now
+    const ScriptURL: string = (typeof document !== 'undefined' && document.currentScript) ?
+        (document.currentScript as HTMLScriptElement).src : null
+
+    // Helper to compare the inputs of two requests, ignoring their identifiers
+    function sameInputs(a: algorithms.SolveRequest, b: algorithms.SolveRequest): boolean {
+        if (a.kind !== b.kind || a.boundStateCount !== b.boundStateCount ||
+            a.maxX !== b.maxX || a.solver !== b.solver || a.scattering !== b.scattering ||
+            a.energies.length !== b.energies.length || a.potentialMesh.length !== b.potentialMesh.length) {
+            return false
+        }
+        for (let i = 0; i < a.energies.length; i++) {
+            if (a.energies[i] !== b.energies[i]) return false
+        }
+        for (let i = 0; i < a.potentialMesh.length; i++) {
+            if (a.potentialMesh[i] !== b.potentialMesh[i]) return false
+        }
+        return true
+    }
+
+    // SolverClient hands SolveRequests to a Web Worker, and reports the responses
+    // Only the most recent request matters. While the worker is busy, newer requests replace
+    // any waiting request, and responses to stale requests are dropped. Until the response arrives,
+    // the caller keeps showing its previous solution.
+    // If solving fails, the failure is reported instead, and the request is forgotten so that it may be tried again.
+    // If we cannot make a worker, requests are solved synchronously instead.
+    export class SolverClient {
+        private worker_: Worker = null
+        private nextIdentifier_ = 1
+
+        // The request the worker is solving, and the request waiting for it to finish
+        private inFlight_: algorithms.SolveRequest = null
+        private waiting_: algorithms.SolveRequest = null
+
+        // The most recent request, and its response once we have it
+        private latest_: algorithms.SolveRequest = null
+        private latestResponse_: algorithms.SolveResponse = null
+
+        constructor(private solvedHandler_: (response: algorithms.SolveResponse) => void,
+                    private failedHandler_: (error: string) => void, useWorker: boolean) {
+            if (useWorker && ScriptURL && typeof Worker !== 'undefined') {
+                try {
+                    this.worker_ = new Worker(ScriptURL)
+                    this.worker_.onmessage = (evt: MessageEvent) => this.receive(evt.data as algorithms.SolveResponse)
+                    this.worker_.onerror = () => this.abandonWorker()
+                } catch (e) {
+                    this.worker_ = null
+                }
+            }
+        }
+
+        // Entry point for solving. The identifier of the request is assigned here.
+        // If the inputs are the same as the most recent request, we don't solve again; instead
+        // we report the response again if we have it
+        public solve(request: algorithms.SolveRequest) {
+            if (this.latest_ && sameInputs(request, this.latest_)) {
+                if (this.latestResponse_) this.solvedHandler_(this.latestResponse_)
+                return
+            }
+            request.id = this.nextIdentifier_++
+            this.latest_ = request
+            this.latestResponse_ = null
+            if (! this.worker_) {
+                this.receive(algorithms.solveRequest(request))
+            } else if (this.inFlight_) {
+                this.waiting_ = request
+            } else {
+                this.post(request)
+            }
+        }
+
+        // Forget about any outstanding request, so that its response is never reported
+        public cancel() {
+            this.latest_ = null
+            this.latestResponse_ = null
+            this.waiting_ = null
+        }
+
+        // Send a request to the worker
+        // We copy the potential, since transferring it takes it away from us
+        private post(request: algorithms.SolveRequest) {
+            this.inFlight_ = request
+            const potentialMesh = new Float64Array(request.potentialMesh)
+            const message: algorithms.SolveRequest = {
+                id: request.id,
+                kind: request.kind,
+                potentialMesh: potentialMesh,
+                energies: request.energies,
+                boundStateCount: request.boundStateCount,
+                maxX: request.maxX,
+                solver: request.solver,
+                scattering: request.scattering
+            }
+            this.worker_.postMessage(message, [potentialMesh.buffer])
+        }
+
+        // Called with each response, from the worker or synchronously
+        private receive(response: algorithms.SolveResponse) {
+            this.inFlight_ = null
+            if (this.latest_ && response.id === this.latest_.id) {
+                if (response.error) {
+                    this.latest_ = null
+                    this.failedHandler_(response.error)
+                } else {
+                    this.latestResponse_ = response
+                    this.solvedHandler_(response)
+                }
+            }
+            if (this.worker_ && this.waiting_) {
+                const request = this.waiting_
+                this.waiting_ = null
+                this.post(request)
+            }
+        }
+
+        // Called if the worker fails to load or run
+        // Go synchronous, and solve whatever was outstanding
+        private abandonWorker() {
+            this.worker_.terminate()
+            this.worker_ = null
+            this.inFlight_ = null
+            this.waiting_ = null
+            if (this.latest_ && ! this.latestResponse_) {
+                this.receive(algorithms.solveRequest(this.latest_))
+            }
+        }
+    }
+}
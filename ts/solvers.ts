@@ -0,0 +1,237 @@
+/// <reference path="./algorithms.ts"/>
+
+// Support for choosing between numerical methods for the time-independent Schrodinger equation
+// Each method is wrapped up as a Solver. Having more than one lets us cross-check results.
+
+module algorithms {
+
+    // A method for solving the time-independent Schrodinger equation on a potential mesh
+    export interface Solver {
+        // Short identifier, e.g. for choosing a solver from the UI
+        name: string
+
+        // Whether the solver stitches wavefunctions together, so that disallowed energies show kinks
+        // Solvers that don't report no derivative discontinuities, whatever the energy
+        stitches: boolean
+
+        // Produce the time independent wavefunction for the given input
+        solve(input: IntegratorInput): TimeIndependentWavefunction
+
+        // Returns the first (up to) count bound states of the given potential, in order of increasing energy
+        // Only energies below the maximum of the potential (and below maxEnergy, if given) are considered bound
+        boundStates(potentialMesh: number[], maxX: number, count: number, maxEnergy?: number): TimeIndependentWavefunction[]
+    }
+
+    // Our original method: Numerov integration from the center and edges, stitched at the turning points
+    // This works for any energy, not just eigen-energies, which lets us show what goes wrong
+    // at disallowed energies
+    export class NumerovSolver implements Solver {
+        public name = "numerov"
+        public stitches = true
+
+        solve(input: IntegratorInput): TimeIndependentWavefunction {
+            return classicallyResolvedAveragedNumerov(input)
+        }
+
+        boundStates(potentialMesh: number[], maxX: number, count: number, maxEnergy?: number): TimeIndependentWavefunction[] {
+            return findBoundStates(potentialMesh, maxX, count, maxEnergy)
+        }
+    }
+
+    // Solves by diagonalizing the finite-difference Hamiltonian on the mesh
+    //    H = -1/2 d^2/dx^2 + V, with (psi[i+1] - 2 psi[i] + psi[i-1]) / dx^2 for the second derivative
+    // and psi zero outside the mesh. This matrix is symmetric and tridiagonal.
+    // Hard walls have an infinite diagonal, which decouples them: psi is zero there.
+    // Eigenvalues come from bisection with Sturm sequences, which count how many eigenvalues
+    // lie below a given energy. Eigenvectors come from inverse iteration.
+    // Unlike Numerov, this only produces eigenstates: solve() returns the eigenstate whose
+    // energy is closest to the requested energy. There is no stitching, so no kinks.
+    export class FiniteDifferenceSolver implements Solver {
+        public name = "finite-difference"
+        public stitches = false
+
+        // Energy tolerance for bisection, and number of inverse iteration passes
+        private static Tolerance = 1.0E-10
+        private static InverseIterations = 3
+
+        solve(input: IntegratorInput): TimeIndependentWavefunction {
+            const H = new TridiagonalHamiltonian(input.potentialMesh, input.maxX)
+            // Eigenvalues below the energy are indexes [0, below)
+            // The closest eigenvalue is either the last of those or the first above
+            const below = H.countEigenvaluesBelow(input.energy)
+            let best = -1, bestEnergy = 0
+            for (let k = Math.max(0, below - 1); k <= below && k < H.finiteLength; k++) {
+                const energy = H.eigenvalue(k, FiniteDifferenceSolver.Tolerance)
+                if (best < 0 || Math.abs(energy - input.energy) < Math.abs(bestEnergy - input.energy)) {
+                    best = k
+                    bestEnergy = energy
+                }
+            }
+            return H.eigenstate(bestEnergy, FiniteDifferenceSolver.InverseIterations)
+        }
+
+        boundStates(potentialMesh: number[], maxX: number, count: number, maxEnergy?: number): TimeIndependentWavefunction[] {
+            assert(potentialMesh.length >= 3, "PotentialMesh is too small")
+            const potentialMax = boundStateCeiling(potentialMesh, maxX / potentialMesh.length)
+            if (maxEnergy === undefined || maxEnergy > potentialMax) {
+                maxEnergy = potentialMax
+            }
+            const H = new TridiagonalHamiltonian(potentialMesh, maxX)
+            count = Math.min(count, H.countEigenvaluesBelow(maxEnergy))
+            let result: TimeIndependentWavefunction[] = []
+            for (let k = 0; k < count; k++) {
+                const energy = H.eigenvalue(k, FiniteDifferenceSolver.Tolerance)
+                result.push(H.eigenstate(energy, FiniteDifferenceSolver.InverseIterations))
+            }
+            return result
+        }
+    }
+
+    // The finite-difference Hamiltonian, as its diagonal and (constant) off-diagonal
+    // finiteLength counts the points outside of hard walls, which is how many finite eigenvalues there are
+    class TridiagonalHamiltonian {
+        public length: number
+        public finiteLength = 0
+        private diagonal_: FloatArray
+        private offDiagonal_: number
+        private dx_: number
+        private potentialMin_ = Infinity
+        private potentialMax_ = -Infinity // ignoring hard walls
+
+        constructor(private potential_: number[], maxX: number) {
+            this.length = potential_.length
+            assert(this.length >= 3, "PotentialMesh is too small")
+            this.dx_ = maxX / this.length
+            const kinetic = 1.0 / (this.dx_ * this.dx_)
+            this.offDiagonal_ = -0.5 * kinetic
+            this.diagonal_ = new Float64Array(this.length)
+            for (let i = 0; i < this.length; i++) {
+                this.diagonal_[i] = kinetic + potential_[i]
+                if (! isHardWall(potential_[i])) {
+                    this.finiteLength++
+                    this.potentialMin_ = Math.min(this.potentialMin_, potential_[i])
+                    this.potentialMax_ = Math.max(this.potentialMax_, potential_[i])
+                }
+            }
+        }
+
+        // Returns the number of eigenvalues less than the given energy
+        // This is the number of negative pivots in the LDL^T factorization of H - energy,
+        // i.e. the number of sign changes in the Sturm sequence
+        countEigenvaluesBelow(energy: number): number {
+            const off2 = this.offDiagonal_ * this.offDiagonal_
+            const tiny = 1.0E-300
+            let count = 0
+            let pivot = 1
+            for (let i = 0; i < this.length; i++) {
+                pivot = this.diagonal_[i] - energy - (i > 0 ? off2 / pivot : 0)
+                if (pivot === 0) pivot = -tiny // treat an exact zero as just below, so we count it
+                if (pivot < 0) count++
+            }
+            return count
+        }
+
+        // Returns the k'th eigenvalue (from 0), by bisection to the given tolerance
+        // H minus the potential has eigenvalues in [0, 2/dx^2], which bounds our search
+        eigenvalue(k: number, tolerance: number): number {
+            assert(k >= 0 && k < this.finiteLength, "Eigenvalue index out of range")
+            let lower = this.potentialMin_
+            let upper = this.potentialMax_ - 4 * this.offDiagonal_
+            while (upper - lower > tolerance) {
+                const energy = 0.5 * (lower + upper)
+                if (this.countEigenvaluesBelow(energy) > k) {
+                    upper = energy
+                } else {
+                    lower = energy
+                }
+            }
+            return 0.5 * (lower + upper)
+        }
+
+        // Returns the normalized eigenstate with the given eigenvalue, by inverse iteration
+        // Each pass solves (H - energy) y = x with the Thomas algorithm. Because energy is
+        // (nearly) an eigenvalue, this amplifies the eigenvector enormously, so few passes are needed.
+        eigenstate(energy: number, iterations: number): TimeIndependentWavefunction {
+            const length = this.length
+            const off = this.offDiagonal_
+            const tiny = 1.0E-300
+
+            // Start with something that is not orthogonal to any eigenvector, we hope
+            // A constant would be orthogonal to every odd state of a symmetric potential
+            let values = ComplexArray.zeros(length)
+            let x = values.res
+            for (let i = 0; i < length; i++) {
+                x[i] = 1 + (i * 7919 % 13) / 13
+            }
+
+            let upperPrime = new Float64Array(length)
+            for (let iter = 0; iter < iterations; iter++) {
+                // Forward sweep
+                let prevUpper = 0, prevRhs = 0
+                for (let i = 0; i < length; i++) {
+                    let pivot = this.diagonal_[i] - energy - (i > 0 ? off * prevUpper : 0)
+                    if (pivot === 0) pivot = tiny
+                    prevUpper = off / pivot
+                    prevRhs = (x[i] - (i > 0 ? off * prevRhs : 0)) / pivot
+                    upperPrime[i] = prevUpper
+                    x[i] = prevRhs
+                }
+                // Back substitution
+                for (let i = length - 2; i >= 0; i--) {
+                    x[i] -= upperPrime[i] * x[i + 1]
+                }
+                // Rescale to keep things finite
+                // Everything is zero if there is no room between hard walls
+                let largest = 0
+                for (let i = 0; i < length; i++) {
+                    largest = Math.max(largest, Math.abs(x[i]))
+                }
+                for (let i = 0; largest > 0 && i < length; i++) {
+                    x[i] /= largest
+                }
+            }
+
+            // Make it positive on the left, like our Numerov solutions
+            const tp = classicalTurningPoints(this.potential_, energy)
+            const eps = 1.0E-8
+            for (let i = tp.left; i < length; i++) {
+                if (Math.abs(x[i]) > eps) {
+                    if (x[i] < 0) {
+                        for (let j = 0; j < length; j++) x[j] = -x[j]
+                    }
+                    break
+                }
+            }
+            // An eigenvector has no stitching, hence no derivative discontinuities
+            const md = {
+                energy: energy,
+                leftTurningPoint: tp.left,
+                rightTurningPoint: tp.right,
+                leftDerivativeDiscontinuity: 0,
+                rightDerivativeDiscontinuity: 0
+            }
+            return new TimeIndependentWavefunction(values, this.dx_, md).normalized()
+        }
+    }
+
+    // Returns the solver with the given name
+    export function solverNamed(name: string): Solver {
+        const solvers: Solver[] = [new NumerovSolver(), new FiniteDifferenceSolver()]
+        const result = solvers.filter((solver) => solver.name === name)
+        assert(result.length > 0, "Unknown solver: " + name)
+        return result[0]
+    }
+
+    // Cross-check two solvers by finding the bound states of the given potential with each
+    // Returns the absolute differences of their energies, for as many states as both found
+    export function compareSolvers(first: Solver, second: Solver, potentialMesh: number[], maxX: number, count: number): number[] {
+        const firstStates = first.boundStates(potentialMesh, maxX, count)
+        const secondStates = second.boundStates(potentialMesh, maxX, count)
+        const shared = Math.min(firstStates.length, secondStates.length)
+        let result: number[] = []
+        for (let i = 0; i < shared; i++) {
+            result.push(Math.abs(firstStates[i].md.energy - secondStates[i].md.energy))
+        }
+        return result
+    }
+}
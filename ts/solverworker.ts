@@ -0,0 +1,167 @@
+/// <reference path="./algorithms.ts"/>
+/// <reference path="./scattering.ts"/>
+/// <reference path="./solutioncache.ts"/>
+/// <reference path="./solvers.ts"/>
+
+// Support for solving in a Web Worker, so that dragging sliders doesn't stall the UI
+// The worker runs our whole script; only the algorithms module is used there
+// Requests and responses are plain objects, with typed arrays that can be transferred
+// rather than copied
+
+module algorithms {
+
+    // What a SolveRequest asks for
+    export enum SolveKind {
+        Energies, // the wavefunction at each of the request's energies
+        BoundStates // the lowest boundStateCount bound states, like for building wavepackets
+    }
+
+    // A request to solve for wavefunctions in the given potential
+    // The solver is given by name, see solverNamed()
+    // When solving at energies, if scattering is set, we solve for scattering states where there is an incoming wave
+    // Bound states are found with the solver, regardless of scattering
+    export interface SolveRequest {
+        id: number
+        kind: SolveKind
+        potentialMesh: Float64Array
+        energies: number[]
+        boundStateCount: number
+        maxX: number
+        solver: string
+        scattering: boolean
+    }
+
+    // One solved wavefunction: its metadata, and its position-space (psi) values
+    // The momentum-space values depend on how the components are mixed, so they are not solved here
+    export interface SolvedComponent {
+        md: WavefunctionMetadata
+        psiRes: Float64Array
+        psiIms: Float64Array
+    }
+
+    // The response to the SolveRequest with the same id and kind
+    // Its components are in the order of the request's energies, or are the bound states found, lowest first
+    // On failure, error is set and there are no components
+    export interface SolveResponse {
+        id: number
+        kind: SolveKind
+        dx: number
+        components: SolvedComponent[]
+        error?: string
+    }
+
+    // How many solutions we remember
+    // A solved energy is a few tens of kilobytes, for the default mesh, and bound states are that much for each state
+    const SolutionCacheCapacity = 128
+
+    // The solutions we remember, shared by every request made in this thread
+    // This is made when first needed, since it lives in another file
+    let solutionCache: SolutionCache = null
+
+    // Solves the given request, in whatever thread we are in
+    // If solving fails, the response has the error rather than throwing it
+    export function solveRequest(request: SolveRequest): SolveResponse {
+        try {
+            return solvedResponse(request)
+        } catch (e) {
+            return {id: request.id, kind: request.kind, dx: 0, components: [], error: String(e)}
+        }
+    }
+
+    // Helper to solve the given request
+    // Energies and bound states that we have already solved for the same inputs are not solved again
+    function solvedResponse(request: SolveRequest): SolveResponse {
+        if (solutionCache === null) {
+            solutionCache = new SolutionCache(SolutionCacheCapacity)
+        }
+        const potentialMesh: number[] = Array.prototype.slice.call(request.potentialMesh)
+        const solver = solverNamed(request.solver)
+        const method = request.solver + (request.scattering ? ":scattering" : "")
+        const dx = request.maxX / potentialMesh.length
+        if (request.kind === SolveKind.BoundStates) {
+            const description = request.solver + ":bound:" + request.boundStateCount
+            const solution = solutionCache.solutionFor(request.potentialMesh, request.maxX, description, () =>
+                ({psis: solver.boundStates(potentialMesh, request.maxX, request.boundStateCount)}))
+            return responseFor(request, dx, solution.psis)
+        }
+        const solveEnergy = (energy: number): Solution => {
+            // Here we have a choice as to our turning points, which affects how we stitch
+            // our wavefunctions together.
+            //
+            // One possibility is to resolve all of them at the outermost (highest-energy)
+            // classical turning points. This would result in a single "kink." However, in the
+            // classically forbidden region, we tend to get exponential blowup; this will be
+            // suppressed at our turning points, but the effect will be that small adjustments
+            // in energy will result in large swings towards the edges of the total wavefunction.
+            //
+            // The other possibility is to resolve each wavefunction component at its own classical
+            // turning points, and then sum those. This will tend to produce multiple "kinks:" one per
+            // wavefunction. In practice this isn't so bad and it does illustrate an important physical
+            // principle: that you can't get a solution to the SE by mixing disallowed energies
+            //
+            // When scattering, there are no turning points to stitch at; instead we solve
+            // for a wave coming in from the left. These states are not normalizable, so we
+            // scale them to be normalized over our mesh, like the bound states.
+            // If the energy is too low for an incoming wave, we fall back to the bound state.
+            let scatteringSolution: ScatteringSolution = null
+            if (request.scattering) {
+                scatteringSolution = solveScattering(potentialMesh, energy, request.maxX)
+            }
+            const psi = scatteringSolution ?
+                scatteringSolution.wavefunction.normalized() :
+                solver.solve({potentialMesh: potentialMesh, energy: energy, maxX: request.maxX})
+            return {psis: [psi]}
+        }
+        const psis = request.energies.map((energy: number) =>
+            solutionCache.solutionFor(request.potentialMesh, request.maxX, method + ":" + energy,
+                                      () => solveEnergy(energy)).psis[0])
+        return responseFor(request, dx, psis)
+    }
+
+    // Helper to build the response to the given request, from the wavefunctions solved for it
+    // The response gets copies of the values, since its buffers may be transferred away,
+    // and the cache must keep its own
+    function responseFor(request: SolveRequest, dx: number, psis: TimeIndependentWavefunction[]): SolveResponse {
+        return {
+            id: request.id,
+            kind: request.kind,
+            dx: dx,
+            components: psis.map((psi: TimeIndependentWavefunction) => ({
+                md: psi.md,
+                psiRes: new Float64Array(psi.values.res),
+                psiIms: new Float64Array(psi.values.ims)
+            }))
+        }
+    }
+
+    // Returns the buffers of the given response, which may be transferred when posting it
+    export function transferablesOf(response: SolveResponse): ArrayBuffer[] {
+        let result: ArrayBuffer[] = []
+        response.components.forEach((comp: SolvedComponent) => {
+            result.push(comp.psiRes.buffer, comp.psiIms.buffer)
+        })
+        return result
+    }
+
+    // Unpacks a response into position-space wavefunctions, one per component
+    export function wavefunctionsFromResponse(response: SolveResponse): TimeIndependentWavefunction[] {
+        return response.components.map((comp) => new TimeIndependentWavefunction(new ComplexArray(comp.psiRes, comp.psiIms), response.dx, comp.md))
+    }
+
+    // What we use of the global scope of a worker
+    // Our typings describe a window rather than a worker, so we declare this ourselves
+    interface SolverWorkerScope {
+        onmessage: (evt: MessageEvent) => void
+        postMessage(message: SolveResponse, transfer: ArrayBuffer[]): void
+    }
+
+    // When we are loaded as a worker, answer each request as it arrives
+    // Workers have importScripts() but no document
+    if (typeof importScripts === 'function' && typeof document === 'undefined') {
+        const workerScope = self as any as SolverWorkerScope
+        workerScope.onmessage = (evt: MessageEvent) => {
+            const response = solveRequest(evt.data as SolveRequest)
+            workerScope.postMessage(response, transferablesOf(response))
+        }
+    }
+}
@@ -94,7 +94,7 @@ module tour {
                 },
                 {
                     element: '#psi_container',
-                    intro: 'Toggle the wavefunction and its squared modulus. This shows <i>position</i>.',
+                    intro: 'Toggle the wavefunction and its squared modulus. This shows <i>position</i>.<br><br>The <i>j</i> button shows the probability current: where probability is flowing.<br><br>For the harmonic oscillator and square wells, <i>&psi;</i><sub>exact</sub> draws the exact solution in white, and reports how far off ours is.',
                     position: 'right'
                 },
                 {
@@ -114,7 +114,7 @@ module tour {
                 },
                 {
                     element: '#energy_buttons',
-                    intro: 'Add and remove energies.',
+                    intro: 'Add and remove energies, jump to the lowest allowed energies, or snap energies to the nearest allowed energy when you let go of a slider.',
                     position: 'left'
                 },
                 {
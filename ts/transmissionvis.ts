@@ -0,0 +1,65 @@
+/// <reference path='./scattering.ts'/>
+
+module visualizing {
+
+    // TransmissionVisualizer plots the transmission coefficient T(E) when we show scattering states
+    // The plot is sideways: energy is on the y axis, so it lines up with the energy bars,
+    // and T(E) extends leftwards from the right edge. The reflection coefficient is 1 - T(E).
+    export class TransmissionVisualizer {
+        // The group containing all of our visual elements
+        // The parent visualizer should add this to the appropriate scene
+        public group: THREE.Group = new THREE.Group()
+
+        // The line plotting T(E), and the line where T = 1
+        private transmissionLine_: Polyline
+        private fullTransmissionLine_: Polyline
+
+        // The state of the visualizer
+        private state_: State = new State(this.params)
+
+        // The potential we last plotted, so we only recompute T(E) when it changes
+        private plottedPotential_: number[] = null
+
+        constructor(public params: Parameters) {
+            this.transmissionLine_ = Polyline.create(this.params.transmissionSampleCount, this.group, {
+                color: 0x66FF99,
+                linewidth: 3,
+                depthWrite: false
+            })
+            this.fullTransmissionLine_ = Polyline.create(2, this.group, {
+                color: 0x66FF99,
+                linewidth: 1,
+                transparent: true,
+                opacity: .5
+            })
+            this.fullTransmissionLine_.makeVertical(this.params.height, this.params.width - this.params.transmissionPlotWidth)
+        }
+
+        // Entry point for all state updates
+        public setState(state:State) {
+            this.state_ = state
+            const visible = state.scattering && state.potential.length > 0
+            this.transmissionLine_.setVisible(visible)
+            this.fullTransmissionLine_.setVisible(visible)
+            if (visible && state.potential !== this.plottedPotential_) {
+                this.plottedPotential_ = state.potential
+                this.redrawTransmissionLine()
+            }
+        }
+
+        // Recompute T(E) over our energy range [0, 1], and plot it
+        private redrawTransmissionLine() {
+            const sampleCount = this.params.transmissionSampleCount
+            let energies: number[] = []
+            for (let i = 0; i < sampleCount; i++) {
+                energies.push(i / (sampleCount - 1))
+            }
+            const transmissions = algorithms.transmissionSpectrum(this.state_.potential, this.params.maxX, energies)
+            this.transmissionLine_.update((index: number) => {
+                const x = this.params.width - transmissions[index] * this.params.transmissionPlotWidth
+                const y = this.params.convertYToVisualCoordinate(energies[index])
+                return vector3(x, y, 0)
+            })
+        }
+    }
+}
@@ -142,6 +142,9 @@ module ui {
         
         // Handler invoked when the slider is dragged
         public draggedToPositionHandler: (position:number) => void = () => {} 
+
+        // Handler invoked when the user releases the slider
+        public draggingEndedHandler: () => void = () => {}
         
         // Construct a Slider either horizontal or vertical, with a Slider element
         constructor(public orientation:Orientation, public element:HTMLElement) {            
@@ -228,7 +231,10 @@ module ui {
         }
         
         private stopDragging() {
-            Slider.draggedSlider = null
+            if (Slider.draggedSlider === this) {
+                Slider.draggedSlider = null
+                this.draggingEndedHandler()
+            }
         }
         
         // Called during a drag
@@ -1,9 +1,16 @@
 /// <reference path="../typings/threejs/three.d.ts"/>
 /// <reference path='./potentials.ts'/>
+/// <reference path='./expression.ts'/>
 /// <reference path='./commonvis.ts'/>
 /// <reference path='./potentialvis.ts'/>
 /// <reference path='./wavefunctionvis.ts'/>
 /// <reference path='./energyvis.ts'/>
+/// <reference path='./forbiddenvis.ts'/>
+/// <reference path='./observablesvis.ts'/>
+/// <reference path='./parametervis.ts'/>
+/// <reference path='./combinators.ts'/>
+/// <reference path='./solverclient.ts'/>
+/// <reference path='./transmissionvis.ts'/>
 /// <reference path='./polyline.ts'/>
 /// <reference path='./ui.ts'/>
 
@@ -32,15 +39,42 @@ module visualizing {
         private potentialVisualizer_: PotentialVisualizer
         private wavefunctionAvg_: WavefunctionVisualizer
         private energyVisualizer_: EnergyVisualizer
+        private observablesReadout_: ObservablesReadout = null
+        private parameterControls_: PotentialParameterControls = null
+        private transmissionVisualizer_: TransmissionVisualizer
 
-        // Lines representing the classical turning points
-        private leftTurningPointLine_: Polyline
-        private rightTurningPointLine_: Polyline
+        // Solves for our energies, possibly in a worker
+        private solverClient_: SolverClient
+
+        // Where we report how far the numerical solution is from the exact one, if anywhere
+        private referenceElement_: HTMLElement = null
+
+        // Where we report that solving failed, if anywhere
+        private solverErrorElement_: HTMLElement = null
+
+        // Shading of the classically forbidden regions at a wavepacket's mean energy
+        // Our energy bars shade their own forbidden regions
+        private wavepacketForbiddenShading_: ForbiddenRegionShading
 
         // The slider at the bottom, for adjusting the potential
         private potentialSlider_: ui.Slider
 
-        constructor(container: HTMLElement, potentialDragger: HTMLElement, energyContainer: HTMLElement, energyDraggerPrototype: HTMLElement) {
+        // When propagating, the propagator and a description of the inputs it was built from
+        // We only rebuild the propagator when these inputs change, since otherwise
+        // we would restart the time evolution on every state change (like rotating the camera)
+        private propagator_: algorithms.CrankNicolsonPropagator = null
+        private propagatorPotential_: number[] = null
+        private propagatorKey_: string = null
+
+        // The bound states that wavepackets are built from, and the potential and solver they belong to
+        // These come from our solver client, like the solutions for our energies
+        private wavepacketBasis_: algorithms.TimeIndependentWavefunction[] = []
+        private wavepacketBasisPotential_: number[] = null
+        private wavepacketBasisSolver_: algorithms.Solver = null
+
+        constructor(container: HTMLElement, potentialDragger: HTMLElement, energyContainer: HTMLElement, energyDraggerPrototype: HTMLElement,
+                    observablesElement?: HTMLElement, referenceElement?: HTMLElement, parametersElement?: HTMLElement,
+                    solverErrorElement?: HTMLElement) {
             // Initialize our renderer
             let renderer = new THREE.WebGLRenderer({ antialias: !true })
             renderer.setClearColor(0x222222, 1)
@@ -63,13 +97,27 @@ module visualizing {
                 renderer.render(this.topScene_, this.camera_)
             })
             
+            // Build our solver client
+            // Its responses may arrive after further state changes, but it only reports the response
+            // to the most recent request
+            this.solverClient_ = new SolverClient((response) => this.applySolution(response),
+                                                  (error) => this.applySolverError(error), this.params_.solveInWorker)
+
             // Build the potential slider
             // This is the slider that appears on the bottom of the visualizer,
             // and that sets the value of the potential parameter
             this.potentialSlider_ = new ui.Slider(ui.Orientation.Horizontal, potentialDragger)
             this.potentialSlider_.draggedToPositionHandler = (position: number) => {
+                // Refuse parameters that the potential can't be solved with, and put the slider back
+                const current = this.state_
+                const potentialParameter = position / this.params_.width
+                if (current.potentialBuilder && ! isValidPotential(this.params_, potentialParameter,
+                                                                   current.potentialBuilder, current.potentialParameterValues)) {
+                    this.potentialSlider_.setPosition(current.potentialParameter * this.params_.width)
+                    return
+                }
                 this.state_.modify((st:State) => {
-                    st.potentialParameter = position / this.params_.width 
+                    st.potentialParameter = potentialParameter
                 })
             }
 
@@ -87,22 +135,41 @@ module visualizing {
             this.wavefunctionAvg_.group.position.y = centerY
             this.group_.add(this.wavefunctionAvg_.group)
 
+            // Build the observables readout, if we have somewhere to put it
+            // This must come after the wavefunction visualizer, since it reads its wavefunction
+            if (observablesElement) {
+                this.observablesReadout_ = new ObservablesReadout(this.params_, observablesElement, this.wavefunctionAvg_, this.animator_)
+            }
+
+            if (referenceElement) {
+                this.referenceElement_ = referenceElement
+            }
+
+            if (solverErrorElement) {
+                this.solverErrorElement_ = solverErrorElement
+            }
+
+            // Build the controls for the potential's named parameters, if we have somewhere to put them
+            if (parametersElement) {
+                this.parameterControls_ = new PotentialParameterControls(this.params_, parametersElement)
+            }
+
+            // Build the transmission visualizer
+            // This plots T(E) when we are showing scattering states
+            this.transmissionVisualizer_ = new TransmissionVisualizer(this.params_)
+            this.group_.add(this.transmissionVisualizer_.group)
+
             // Build the energy visualizer
             // This is responsible for the energy lines and sliders
             this.energyVisualizer_ = 
                 new EnergyVisualizer(energyContainer, energyDraggerPrototype, this.params_)
             this.group_.add(this.energyVisualizer_.group)
 
-            // Build our two turning point lines
-            // These show the classical turning points, where the energy equals the potential
-            let turningPointStyle = {
-                color: 0x999999,
-                linewidth: 1,
-                transparent: true,
-                opacity: .5
-            }
-            this.leftTurningPointLine_ = Polyline.create(2, this.group_, turningPointStyle)
-            this.rightTurningPointLine_ = Polyline.create(2, this.group_, turningPointStyle)
+            // Build the shading for a wavepacket's forbidden regions
+            // This is gray, since a wavepacket has no energy bar
+            this.wavepacketForbiddenShading_ = new ForbiddenRegionShading(this.params_, this.group_, 0x999999,
+                                                                          this.params_.forbiddenRegionOpacity)
+            this.wavepacketForbiddenShading_.setVisible(false)
 
             // Our "sketch a potential" feature is impemented via dragging
             // Set that up
@@ -126,7 +193,10 @@ module visualizing {
         // Called from state update - reflect the state's potential and energies
         private applyStateToWavefunction() {
             if (this.state_.potential.length === 0) {
+                this.cancelSolving()
                 this.wavefunctionAvg_.setWavefunction(null)
+                this.wavepacketForbiddenShading_.setVisible(false)
+                this.energyVisualizer_.clearSolvedMetadata()
                 return
             }
             
@@ -135,50 +205,181 @@ module visualizing {
             // Each of those energies produces a wavefunction, given our potential
             // These wavefunctions satisfy the time-independent Schrödinger equation
             // We can mix (linearly-combine) one or more to get a wavefunction representing
-            // a mixture of the energies. (Here we always pick an even weighting).
+            // a mixture of the energies, weighted by the (complex) coefficients in our state.
+            //
+            // Alternatively we have a wavepacket, which is a mixture of the bound states of our potential
             const energies = this.state_.energyValues()
-            if (energies.length > 0) {
-                // update wavefunctions and collect them all
-                let psis : algorithms.TimeIndependentWavefunction[] = []
-                energies.forEach((energy: number) => {                    
-                    // Here we have a choice as to our turning points, which affects how we stitch
-                    // our wavefunctions together.
-                    //
-                    // One possibility is to resolve all of them at the outermost (highest-energy)
-                    // classical turning points. This would result in a single "kink." However, in the
-                    // classically forbidden region, we tend to get exponential blowup; this will be
-                    // suppressed at our turning points, but the effect will be that small adjustments
-                    // in energy will result in large swings towards the edges of the total wavefunction.
-                    // 
-                    // The other possibility is to resolve each wavefunction component at its own classical
-                    // turning points, and then sum those. This will tend to produce multiple "kinks:" one per
-                    // wavefunction. In practice this isn't so bad and it does illustrate an important physical
-                    // principle: that you can't get a solution to the SE by mixing disallowed energies
-                    const psiInputs = {
-                        potentialMesh: this.state_.potential,
-                        energy: energy,
-                        maxX: this.params_.maxX
-                    } 
-                    let timeIndependentPsi = algorithms.classicallyResolvedAveragedNumerov(psiInputs)
-                    psis.push(timeIndependentPsi)
+            if (this.state_.wavepacket && this.hasWavepacketBasis()) {
+                this.cancelSolving()
+                this.applyWavepacket()
+            } else if (this.state_.wavepacket) {
+                // Find the bound states to build the wavepacket from. Like solving for energies, this
+                // may happen in a worker, in which case we keep showing the previous wavefunction
+                // until applySolution() is called
+                this.solverClient_.solve({
+                    id: 0,
+                    kind: algorithms.SolveKind.BoundStates,
+                    potentialMesh: new Float64Array(this.state_.potential),
+                    energies: [],
+                    boundStateCount: this.params_.wavepacketStateCount,
+                    maxX: this.params_.maxX,
+                    solver: this.state_.solver.name,
+                    scattering: this.state_.scattering
+                })
+            } else if (energies.length > 0) {
+                // Solve for each energy. This may happen in a worker, in which case we keep
+                // showing the previous wavefunction until applySolution() is called
+                // Nothing is solved if only other parts of the state changed (like the camera rotation),
+                // and energies solved earlier for this potential are remembered by the solver's cache
+                this.wavepacketForbiddenShading_.setVisible(false)
+                this.solverClient_.solve({
+                    id: 0,
+                    kind: algorithms.SolveKind.Energies,
+                    potentialMesh: new Float64Array(this.state_.potential),
+                    energies: energies,
+                    boundStateCount: 0,
+                    maxX: this.params_.maxX,
+                    solver: this.state_.solver.name,
+                    scattering: this.state_.scattering
                 })
+            } else {
+                this.cancelSolving()
+                this.wavepacketForbiddenShading_.setVisible(false)
+                this.applyReference([])
+            }
+        }
 
-                // Now we have the list of wavfunctions in "psis"
-                // Produce a single (time-dependent) wavefunction by mixing them
-                let timeDependentPsi = new algorithms.Wavefunction(psis)
-                this.wavefunctionAvg_.setWavefunction(timeDependentPsi)
+        // Called by our solver client when it has solved for our state
+        // This is either the energies of our state, or the bound states our wavepacket is built from
+        private applySolution(response: algorithms.SolveResponse) {
+            this.showSolverError("")
+            if (response.kind === algorithms.SolveKind.BoundStates) {
+                this.wavepacketBasis_ = algorithms.wavefunctionsFromResponse(response)
+                this.wavepacketBasisPotential_ = this.state_.potential
+                this.wavepacketBasisSolver_ = this.state_.solver
+                this.applyWavepacket()
+            } else {
+                this.applyEnergySolution(response)
             }
+        }
+
+        // Each energy produces a wavefunction satisfying the time-independent Schrodinger equation
+        // Produce a single (time-dependent) wavefunction by mixing them
+        private applyEnergySolution(response: algorithms.SolveResponse) {
+            const psis = algorithms.wavefunctionsFromResponse(response)
+            const psi = new algorithms.Wavefunction(psis, this.state_.energyCoefficients())
+
+            // Let each energy bar show how close its component is to stationary
+            // The components are in the order of our energies, since the response is to our latest request
+            let metadata: { [key:string]:algorithms.WavefunctionMetadata; } = {}
+            Object.keys(this.state_.energies).forEach((energyID: string, idx: number) => {
+                metadata[energyID] = psis[idx].md
+            })
+            this.energyVisualizer_.setSolvedMetadata(metadata)
+            this.applyReference(this.state_.scattering ? [] : psis)
+            this.showWavefunction(psi)
+        }
+
+        // Show our wavepacket, as a mixture of the bound states we found for our potential
+        // Potentials with no bound states (like a flat one) have nothing to build a wavepacket from
+        private applyWavepacket() {
+            const basis = this.wavepacketBasis_
+            this.energyVisualizer_.clearSolvedMetadata()
+            this.applyReference([])
+            this.wavepacketForbiddenShading_.setVisible(basis.length > 0)
+            if (basis.length === 0) {
+                this.propagator_ = null
+                this.wavefunctionAvg_.setWavefunction(null)
+                return
+            }
+            const psi = algorithms.wavepacketWavefunction(this.state_.wavepacket, basis)
+            this.showWavefunction(psi)
+            // Shade where the potential is above the wavepacket's mean energy
+            // These are the regions that are classically forbidden to a particle with that energy
+            this.wavepacketForbiddenShading_.update(this.state_.potential, psi.meanEnergy())
+        }
+
+        // Called by our solver client when solving for our state failed
+        // The previous wavefunction is not a solution for our state, so we stop showing it
+        private applySolverError(error: string) {
+            this.energyVisualizer_.clearSolvedMetadata()
+            this.wavepacketForbiddenShading_.setVisible(false)
+            this.applyReference([])
+            this.propagator_ = null
+            this.wavefunctionAvg_.setWavefunction(null)
+            this.showSolverError("Could not solve: " + error)
+        }
+
+        // Stop waiting for any solution, since our state no longer needs one
+        private cancelSolving() {
+            this.solverClient_.cancel()
+            this.showSolverError("")
+        }
+
+        // Show the given error from solving, or clear it if the error is empty
+        private showSolverError(error: string) {
+            if (this.solverErrorElement_) this.solverErrorElement_.textContent = error
+        }
 
-            // Update our turning point lines
-            // Compute our maximum energy (or 0 if we have none)
-            // Update our turning point lines to show the points in our potential that equal those energies
-            // These are the classical turning points, that demarcate the classically forbidden region
-            const maxEnergy = energies.reduce((a, b) => Math.max(a, b), 0)
-            const turningPoints = algorithms.classicalTurningPoints(this.state_.potential, maxEnergy)
-            const leftX = this.params_.convertXToVisualCoordinate(turningPoints.left)
-            const rightX = this.params_.convertXToVisualCoordinate(turningPoints.right)
-            this.leftTurningPointLine_.makeVertical(this.params_.height, leftX)
-            this.rightTurningPointLine_.makeVertical(this.params_.height, rightX)
+        // Show the given wavefunction, or evolve it with our propagator
+        private showWavefunction(psi: algorithms.Wavefunction) {
+            if (this.state_.propagate) {
+                this.applyPropagator(psi)
+            } else {
+                this.propagator_ = null
+                this.wavefunctionAvg_.setWavefunction(psi)
+            }
+        }
+
+        // Called from state update - show the exact solution next to the given numerical components,
+        // and report their errors, if we have an exact solution for our potential
+        // Each component is compared against the exact eigenstate nearest it in energy,
+        // and the exact wavefunction mixes those eigenstates with the same coefficients
+        private applyReference(psis: algorithms.TimeIndependentWavefunction[]) {
+            const st = this.state_
+            let solution: reference.AnalyticSolution = null
+            if (st.showReference && psis.length > 0) {
+                solution = reference.analyticSolutionFor(st.potentialBuilder, st.potentialParameter,
+                                                         st.potentialParameterValues, this.params_.maxX)
+            }
+            if (! solution || solution.count === 0) {
+                this.wavefunctionAvg_.setReference(null)
+                if (this.referenceElement_) this.referenceElement_.innerHTML = ""
+                return
+            }
+
+            let rows: string[] = []
+            const exacts = psis.map((psi) => {
+                const errors = reference.compareWithReference(psi, solution)
+                // Match the units of the energy slider labels
+                rows.push("<i>n</i> = " + errors.n +
+                          ": &Delta;<i>E</i> = " + (errors.energyError * this.params_.energyScale).toExponential(1) +
+                          " &nbsp; L<sup>2</sup> = " + errors.l2Error.toExponential(1))
+                return reference.sampleEigenstate(solution, errors.n, this.params_.meshDivision, this.params_.maxX)
+            })
+            this.wavefunctionAvg_.setReference(new algorithms.Wavefunction(exacts, st.energyCoefficients()))
+            if (this.referenceElement_) this.referenceElement_.innerHTML = rows.join("<br>")
+        }
+
+        // Returns whether we have the bound states to build wavepackets in our potential
+        // Finding these is expensive, so we only do it when the potential or solver changes
+        private hasWavepacketBasis(): boolean {
+            return (this.wavepacketBasisPotential_ === this.state_.potential &&
+                    this.wavepacketBasisSolver_ === this.state_.solver)
+        }
+
+        // Called from state update when propagating
+        // Use the given wavefunction at time zero as the initial state for the time-dependent solver
+        private applyPropagator(psi: algorithms.Wavefunction) {
+            const st = this.state_
+            const key = JSON.stringify([st.energies, st.weights, st.phases, st.wavepacket, st.scattering, st.solver.name])
+            if (this.propagator_ === null || this.propagatorPotential_ !== st.potential || this.propagatorKey_ !== key) {
+                this.propagator_ = new algorithms.CrankNicolsonPropagator(psi.valuesAt(0), st.potential,
+                                                                          psi.dx, this.params_.propagationTimestep)
+                this.propagatorPotential_ = st.potential
+                this.propagatorKey_ = key
+            }
+            this.wavefunctionAvg_.setPropagator(this.propagator_)
         }
 
         // React-style state update
@@ -191,11 +392,14 @@ module visualizing {
             this.potentialVisualizer_.setState(state)
             this.wavefunctionAvg_.setState(state)
             this.energyVisualizer_.setState(state)
+            this.transmissionVisualizer_.setState(state)
+            if (this.observablesReadout_) this.observablesReadout_.setState(state)
+            if (this.parameterControls_) this.parameterControls_.setState(state)
 
             // Update potential slider
             // Hide the slider if the potential builder does not take the user-defined parameter
             this.potentialSlider_.setPosition(state.potentialParameter * this.params_.width)
-            this.potentialSlider_.setVisible(state.potentialBuilder && state.potentialBuilder.length > 1)
+            this.potentialSlider_.setVisible(state.potentialBuilder && algorithms.usesParameter(state.potentialBuilder))
 
             this.applyStateToWavefunction()
             this.applyCameraRotation()
@@ -204,11 +408,20 @@ module visualizing {
         }
 
         // Helper function to set a new potential
-        private loadPotentialFromBuilder(pbf:algorithms.PotentialBuilderFunc) {
+        // Scattering potentials are open on both sides, so we show their scattering states
+        // Random potentials pass their seed, so that they may be recreated
+        private loadPotentialFromBuilder(pbf:algorithms.PotentialBuilderFunc, scattering: boolean = false,
+                                         randomSeed: number = null) {
             this.state_.modify((st:State) => {
                 st.sketching = false
                 st.sketchLocations = []
                 st.potentialBuilder = pbf
+                st.potentialParameterValues = algorithms.defaultParameterValues(pbf)
+                st.randomPotentialSeed = randomSeed
+                st.sketchControlPoints = []
+                st.sketchSamples = []
+                st.sketchBase = null
+                st.scattering = scattering
             })
         }
 
@@ -230,12 +443,53 @@ module visualizing {
             this.state_.modify((st:State) => st.showPhiAbs = flag)
         }
 
+        // Launch a Gaussian wavepacket with the given center, momentum and width
+        // Center and width are fractions of the visualizer width, in the range [0, 1)
+        public setWavepacket(center: number, momentum: number, width: number) {
+            this.state_.modify((st:State) => {
+                st.wavepacket = {center: center, momentum: momentum, width: width}
+            })
+        }
+
+        // Go back to showing the energies instead of a wavepacket
+        public clearWavepacket() {
+            this.state_.modify((st:State) => st.wavepacket = null)
+        }
+
+        // Choose the method for solving the time-independent Schrodinger equation
+        // by name: "numerov" or "finite-difference"
+        public setSolver(name: string) {
+            this.state_.modify((st:State) => st.solver = algorithms.solverNamed(name))
+        }
+
+        public setPropagate(flag: boolean) {
+            this.state_.modify((st:State) => st.propagate = flag)
+        }
+
+        public setShowReference(flag: boolean) {
+            this.state_.modify((st:State) => st.showReference = flag)
+        }
+
+        public setShowKinks(flag: boolean) {
+            this.state_.modify((st:State) => st.showKinks = flag)
+        }
+
+        public setShowCurrent(flag: boolean) {
+            this.state_.modify((st:State) => st.showCurrent = flag)
+        }
+
         public setPaused(flag: boolean) {
             // When pausing, reset to time zero
             if (flag) this.animator_.reset()
             this.state_.modify((st:State) => st.paused = flag)
         }
 
+        public setSnapToEigenstates(flag: boolean) {
+            this.state_.modify((st:State) => st.snapToEigenstates = flag)
+            // Snap the existing energies too, so that they agree with the new mode
+            if (flag) this.energyVisualizer_.snapEnergiesToEigenstates()
+        }
+
         public setRotation(rads: number) {
             this.state_.modify((st:State) => st.cameraRotationRadians = rads)
         }
@@ -260,8 +514,127 @@ module visualizing {
             this.loadPotentialFromBuilder(algorithms.SteppedSquareWell)
         }
 
-        public loadRandomPotential() {
-            this.loadPotentialFromBuilder(algorithms.RandomPotential())
+        public loadMorse() {
+            this.loadPotentialFromBuilder(algorithms.MorsePotential)
+        }
+
+        public loadPoschlTeller() {
+            this.loadPotentialFromBuilder(algorithms.PoschlTellerPotential)
+        }
+
+        public loadBouncer() {
+            this.loadPotentialFromBuilder(algorithms.LinearBouncer)
+        }
+
+        public loadDoubleWell() {
+            this.loadPotentialFromBuilder(algorithms.QuarticDoubleWell)
+        }
+
+        public loadAsymmetricDoubleWell() {
+            this.loadPotentialFromBuilder(algorithms.AsymmetricDoubleWell)
+        }
+
+        public loadKronigPenney() {
+            this.loadPotentialFromBuilder(algorithms.KronigPenney)
+        }
+
+        public loadDeltaWell() {
+            this.loadPotentialFromBuilder(algorithms.DeltaWell)
+        }
+
+        public loadDoubleDeltaWell() {
+            this.loadPotentialFromBuilder(algorithms.DoubleDeltaWell)
+        }
+
+        public loadStep() {
+            this.loadPotentialFromBuilder(algorithms.PotentialStep, true)
+        }
+
+        public loadBarrier() {
+            this.loadPotentialFromBuilder(algorithms.SquareBarrier, true)
+        }
+
+        public loadDoubleBarrier() {
+            this.loadPotentialFromBuilder(algorithms.DoubleBarrier, true)
+        }
+
+        // Switch between bound states and scattering states in the current potential
+        public setScattering(flag: boolean) {
+            this.state_.modify((st:State) => st.scattering = flag)
+        }
+
+        public toggleScattering() {
+            this.setScattering(! this.state_.scattering)
+        }
+
+        // Returns the error in the given potential expression, to show next to it
+        // Returns the empty string if the expression is fine
+        public potentialExpressionError(text: string): string {
+            return this.compilePotentialExpression(text).error
+        }
+
+        // Load a potential typed as an expression in x and p, like 0.5*(x-0.5)^2
+        // Returns the error in the expression, if any, as with potentialExpressionError()
+        public loadPotentialExpression(text: string): string {
+            const compiled = this.compilePotentialExpression(text)
+            if (compiled.potential) {
+                this.loadPotentialFromBuilder(compiled.potential)
+            }
+            return compiled.error
+        }
+
+        // Compiles a potential expression, producing either a potential or an error
+        // Expressions may be valid but still not a number somewhere, like sqrt(x - 0.5); that's an error too
+        // Infinite values are hard walls, like those of other potentials, so those are fine
+        private compilePotentialExpression(text: string): {potential: algorithms.PotentialBuilderFunc, error: string} {
+            let potential: algorithms.PotentialBuilderFunc
+            try {
+                potential = algorithms.compilePotentialExpression(text)
+            } catch (e) {
+                if (! (e instanceof algorithms.ExpressionError)) throw e
+                return {potential: null, error: e.toString()}
+            }
+            const mesh = buildPotential(this.params_, this.state_.potentialParameter, potential)
+            const invalidIdx = invalidPotentialIndex(mesh)
+            if (invalidIdx >= 0) {
+                const x = invalidIdx / this.params_.meshDivision
+                return {potential: null, error: "Expression is " + mesh[invalidIdx] + " at x = " + x.toFixed(3)}
+            }
+            return {potential: potential, error: ""}
+        }
+
+        // Load the random potential with the given seed, or with a new seed if none is given
+        // Returns the seed, so that the potential may be loaded again later
+        public loadRandomPotential(seed?: number): number {
+            if (seed === undefined || ! isFinite(seed)) {
+                seed = algorithms.randomSeed()
+            }
+            seed = Math.floor(seed)
+            const pbf = algorithms.RandomPotential(seed, this.state_.randomPotentialOptions)
+            this.loadPotentialFromBuilder(pbf, false, seed)
+            return seed
+        }
+
+        // Set the options for generating random potentials
+        // If our potential is random, it is regenerated from the same seed with the new options
+        // We keep a copy of the options, so that the caller may go on to modify theirs
+        public setRandomPotentialOptions(options: algorithms.RandomPotentialOptions) {
+            const copied: algorithms.RandomPotentialOptions = {
+                minPivotCount: options.minPivotCount,
+                maxPivotCount: options.maxPivotCount,
+                roughness: options.roughness,
+                lineWeight: options.lineWeight,
+                flatWeight: options.flatWeight,
+                bezierWeight: options.bezierWeight,
+                minAmplitude: options.minAmplitude,
+                maxAmplitude: options.maxAmplitude
+            }
+            this.state_.modify((st:State) => {
+                st.randomPotentialOptions = copied
+                if (st.randomPotentialSeed !== null) {
+                    st.potentialBuilder = algorithms.RandomPotential(st.randomPotentialSeed, copied)
+                }
+            })
         }
 
         public addEnergySlider() {
@@ -272,13 +645,87 @@ module visualizing {
             this.energyVisualizer_.removeEnergySlider()
         }
 
+        // Replace the energies with the lowest count bound state energies
+        // If count is not given, keep the current number of energies
+        public populateEnergyLevels(count?: number) {
+            this.energyVisualizer_.populateEnergyLevels(count)
+        }
+
+        // Set the options for turning sketches into potentials
+        // If our potential is sketched, it is processed again with the new options, which replaces any edits
+        // to its control points
+        public setSketchOptions(options: algorithms.SketchOptions) {
+            this.potentialVisualizer_.setSketchOptions({
+                overlap: options.overlap,
+                smoothing: options.smoothing,
+                symmetrize: options.symmetrize,
+                extendEdges: options.extendEdges
+            })
+        }
+
         // Entry point to trigger sketching
         public sketchPotential() {
             this.state_.modify((st:State) => {
                 st.potential = []
                 st.potentialBuilder = null
+                st.randomPotentialSeed = null
+                st.sketchControlPoints = []
+                st.sketchSamples = []
+                st.sketchBase = null
+                st.sketching = true
+            })
+        }
+
+        // Entry point to sketch a perturbation of the current potential
+        // The sketch is drawn over the potential, and changes it only where drawn
+        public sketchPerturbation() {
+            if (! this.state_.potentialBuilder) return
+            this.state_.modify((st:State) => {
+                st.sketchBase = st.potentialBuilder
+                st.randomPotentialSeed = null
+                st.sketchControlPoints = []
+                st.sketchSamples = []
+                st.sketchLocations = []
                 st.sketching = true
             })
         }
+
+        // Combine the current potential with others, using one of the combinators
+        // The values of the current potential's named parameters are kept, and the combinator's
+        // own parameters get controls. The combination is no longer random, nor an editable sketch
+        private composePotential(combinator: (pbf: algorithms.PotentialBuilderFunc) => algorithms.PotentialBuilderFunc) {
+            if (! this.state_.potentialBuilder) return
+            const pbf = combinator(this.state_.potentialBuilder)
+            const values = algorithms.carryParameterValues(pbf, this.state_.potentialParameterValues)
+            if (! isValidPotential(this.params_, this.state_.potentialParameter, pbf, values)) return
+            this.state_.modify((st:State) => {
+                st.potentialBuilder = pbf
+                st.potentialParameterValues = values
+                st.randomPotentialSeed = null
+                st.sketchControlPoints = []
+                st.sketchSamples = []
+                st.sketchBase = null
+            })
+        }
+
+        public addBump() {
+            this.composePotential(algorithms.bumpedPotential)
+        }
+
+        public scalePotential() {
+            this.composePotential(algorithms.scaledPotential)
+        }
+
+        public shiftPotential() {
+            this.composePotential(algorithms.shiftedPotential)
+        }
+
+        public translatePotential() {
+            this.composePotential(algorithms.translatedPotential)
+        }
+
+        public clipPotential() {
+            this.composePotential(algorithms.clippedPotential)
+        }
     }
 }
@@ -2,24 +2,42 @@
 
 module visualizing {
 
-    // Helper function type
-    // Inputs a number and time, outputs a complex value 
-    type ValueAt = (index: number, time: number) => algorithms.Complex
-
-    // Higher level function! Given a ValueAt, returns a new ValueAt representing its magnitude
-    function magnitudeSquaredOf(originalFunc:ValueAt): ValueAt {
-        return (index:number, time:number) => {
-            let mag2 = originalFunc(index, time).magnitudeSquared()
-            return new algorithms.Complex(mag2, 0)
+    // Helper to compute the squared magnitude of the given values into result
+    // The magnitude is real, so it is stored as the real part
+    function magnitudeSquaredInto(values: algorithms.ComplexArray, result: algorithms.ComplexArray) {
+        const res = values.res, ims = values.ims
+        for (let i = 0; i < values.length; i++) {
+            result.res[i] = res[i] * res[i] + ims[i] * ims[i]
+            result.ims[i] = 0
+        }
+    }
+
+    // Helper to compute the probability current of the given psi values into result
+    // j = Im(conj(psi) * dpsi/dx), using central differences with the given spacing
+    // j is real, so it is stored as the real part
+    function probabilityCurrentInto(psi: algorithms.ComplexArray, dx: number, result: algorithms.ComplexArray) {
+        const res = psi.res, ims = psi.ims, length = psi.length
+        for (let i = 0; i < length; i++) {
+            // psi is zero outside the mesh
+            const prevRe = i > 0 ? res[i - 1] : 0, prevIm = i > 0 ? ims[i - 1] : 0
+            const nextRe = i + 1 < length ? res[i + 1] : 0, nextIm = i + 1 < length ? ims[i + 1] : 0
+            const dpsiRe = (nextRe - prevRe) / (2 * dx)
+            const dpsiIm = (nextIm - prevIm) / (2 * dx)
+            // Im(conj(a + bi) * (c + di)) = ad - bc
+            result.res[i] = res[i] * dpsiIm - ims[i] * dpsiRe
+            result.ims[i] = 0
         }
     }
 
     // WavefunctionVisualizer presents a wavefunction
     // It can show psi and psiAbs (position-space wavefunction), and also
-    // phi and phiAbs (momentum-space wavefunction)
+    // phi and phiAbs (momentum-space wavefunction), and the probability current
+    // It can also show an exact reference solution alongside psi
     // This operates a little differently in that it doesn't do anything in setState()
     // This is because its rendering is time-dependent. Thus it does all of its work
     // at draw time, in prepareForRender().
+    // Each frame, psi (and phi if needed) is evaluated once into a buffer, and every graph
+    // is drawn from the buffers. The buffers are reused from frame to frame.
     export class WavefunctionVisualizer {
         // The group containing all of our visual elements
         // The parent visualizer should add this to the appropriate scene
@@ -29,19 +47,41 @@ module visualizing {
         private psiBaseline_: Polyline
 
         // These "visualizables" are the glue between the abstract wavefunction
-        // and our four presented wavefunction graphs
+        // and our presented wavefunction graphs
         private psiVis_: Visualizable
         private psiAbsVis_: Visualizable
         private phiVis_: Visualizable
         private phiAbsVis_: Visualizable
+        private currentVis_: Visualizable
+        private referenceVis_: Visualizable
 
-        // The state tracks which of our four graphs are visible
+        // The state tracks which of our graphs are visible
         private state_ = new State(this.params)
 
+        // The wavefunction we show, and the exact reference. Either may be null
+        private psi_: algorithms.Wavefunction = null
+        private reference_: algorithms.Wavefunction = null
+
+        // If set, the wavefunction is evolved by this propagator, which we advance before each render
+        private propagator_: algorithms.CrankNicolsonPropagator = null
+
+        // The time our phi values are for, so that we don't transform again while time stands still
+        // This is NaN when we have no phi values
+        private phiTime_ = NaN
+
+        // Our buffers, and whether psi and phi hold values for the current frame
+        private psiValues_: algorithms.ComplexArray
+        private phiValues_: algorithms.ComplexArray
+        private magnitudeValues_: algorithms.ComplexArray
+        private currentValues_: algorithms.ComplexArray
+        private referenceValues_: algorithms.ComplexArray
+        private hasPsiValues_ = false
+        private hasPhiValues_ = false
+
         constructor(public params: Parameters, public animator: Redrawer) {
             const psiColor = params.psiColor
             const phiColor = params.phiColor
-            // Set up materials for our four graphs, and the baseline
+            // Set up materials for our graphs, and the baseline
             const psiMaterial = {
                 color: psiColor,
                 linewidth: 5,
@@ -68,6 +108,20 @@ module visualizing {
                 opacity: .75,
                 depthTest: false
             }
+            const currentMaterial = {
+                color: params.currentColor,
+                linewidth: 5,
+                transparent: true,
+                opacity: .75,
+                depthTest: false
+            }
+            const referenceMaterial = {
+                color: params.referenceColor,
+                linewidth: 2,
+                transparent: true,
+                opacity: .6,
+                depthTest: false
+            }
             const baselineMaterial = {
                 color: psiColor,
                 linewidth: .5,
@@ -83,6 +137,15 @@ module visualizing {
             this.phiVis_ = new Visualizable(this.params.psiScale, this.params, this.group, phiMaterial)
             this.psiAbsVis_ = new Visualizable(this.params.psiAbsScale, this.params, this.group, psiAbsMaterial)
             this.phiAbsVis_ = new Visualizable(this.params.psiAbsScale, this.params, this.group, phiAbsMaterial)
+            this.currentVis_ = new Visualizable(this.params.currentScale, this.params, this.group, currentMaterial)
+            this.referenceVis_ = new Visualizable(this.params.psiScale, this.params, this.group, referenceMaterial)
+
+            const length = this.params.meshDivision
+            this.psiValues_ = algorithms.ComplexArray.zeros(length)
+            this.phiValues_ = algorithms.ComplexArray.zeros(length)
+            this.magnitudeValues_ = algorithms.ComplexArray.zeros(length)
+            this.currentValues_ = algorithms.ComplexArray.zeros(length)
+            this.referenceValues_ = algorithms.ComplexArray.zeros(length)
 
             // Get told when our animator is going to redraw
             this.animator.addClient(this)
@@ -95,80 +158,141 @@ module visualizing {
             this.psiAbsVis_.visible = this.state_.showPsiAbs
             this.phiVis_.visible = this.state_.showPhi
             this.phiAbsVis_.visible = this.state_.showPhiAbs
+            this.currentVis_.visible = this.state_.showCurrent
+            this.referenceVis_.visible = this.state_.showReference
         }
 
         // Sets the wavefunction. Note that the wavefunction is not stored in the 'state' object,
         // since it requires some computation
         public setWavefunction(psi: algorithms.Wavefunction) {
-            if (! psi) {
-                this.psiVis_.valueAt = null
-                this.psiAbsVis_.valueAt = null
-                this.phiVis_.valueAt = null
-                this.phiAbsVis_.valueAt = null
-            } else {
-                assert(psi.length === this.params.meshDivision, "Wavefunction has wrong length")
-
-                // The phi (momentum-space) values are the Fourier transform of the psi (position-space) values
-                // The fourier transform is expensive, so perform it only if requested (and cache the result)
-                // We compute it based on the center, not the potential minimum, because we want to capture
-                // the probability of the particle moving left or right
-                let freqWavefunctionCache: algorithms.Wavefunction = null
-                let freqWavefunction = () => {
-                    if (freqWavefunctionCache === null) {
-                        freqWavefunctionCache = 
-                            psi.fourierTransform(Math.floor(psi.length/2), this.params.frequencyScale)
-                    }
-                    return freqWavefunctionCache
-                }
+            assert(! psi || psi.length === this.params.meshDivision, "Wavefunction has wrong length")
+            this.propagator_ = null
+            this.psi_ = psi
+            this.phiTime_ = NaN
+        }
+
+        // Sets a propagator, which solves the time-dependent Schrodinger equation directly
+        // The propagator holds the wavefunction at a single time, so rather than evaluating psi
+        // at the render time, we advance the propagator to it
+        public setPropagator(propagator: algorithms.CrankNicolsonPropagator) {
+            assert(propagator.values.length === this.params.meshDivision, "Propagator has wrong length")
+            this.propagator_ = propagator
+            this.psi_ = null
+            this.phiTime_ = NaN
+        }
+
+        // Sets the exact solution to draw next to psi, or null for none
+        public setReference(psi: algorithms.Wavefunction) {
+            assert(! psi || psi.length === this.params.meshDivision, "Reference has wrong length")
+            this.reference_ = psi
+        }
+
+        // Returns the position-space wavefunction psi for the frame being rendered, or null if we have none
+        // The buffer is reused, so callers should not hang on to it
+        public psiValues(): algorithms.ComplexArray {
+            return this.hasPsiValues_ ? this.psiValues_ : null
+        }
+
+        // Returns the momentum-space wavefunction phi for the frame being rendered, or null if we have none
+        // We only compute phi when something needs it: the phi graphs or the observables
+        public phiValues(): algorithms.ComplexArray {
+            return this.hasPhiValues_ ? this.phiValues_ : null
+        }
 
-                // Set everyone's valueAts
-                const psiValueAt = (index: number, time: number) => psi.valueAt(index, time)
-                const phiValueAt = (index: number, time: number) => freqWavefunction().valueAt(index, time)
-                
-                this.psiVis_.valueAt = psiValueAt
-                this.psiAbsVis_.valueAt = magnitudeSquaredOf(psiValueAt)
-                this.phiVis_.valueAt = phiValueAt
-                this.phiAbsVis_.valueAt = magnitudeSquaredOf(phiValueAt)
+        // Helper to compute the psi and phi buffers for the given time
+        // phi is the transform of the instantaneous state, so it changes with time
+        // The Fourier transform is expensive, so perform it only if requested (and only once for each time)
+        // We compute it based on the center, not the potential minimum, because we want to capture
+        // the probability of the particle moving left or right
+        private evaluate(time: number) {
+            const st = this.state_
+            const wantsPhi = st.showPhi || st.showPhiAbs || st.showObservables
+            const center = Math.floor(this.params.meshDivision / 2)
+            this.hasPsiValues_ = false
+            this.hasPhiValues_ = false
+            if (this.propagator_) {
+                const propagator = this.propagator_
+                propagator.advanceTo(time)
+                this.psiValues_.res.set(propagator.values.res)
+                this.psiValues_.ims.set(propagator.values.ims)
+                this.hasPsiValues_ = true
+                if (wantsPhi && this.phiTime_ !== propagator.time) {
+                    this.setPhiValues(algorithms.momentumSpaceValues(propagator.values, center, propagator.dx, this.params.frequencyScale))
+                    this.phiTime_ = propagator.time
+                }
+                this.hasPhiValues_ = wantsPhi
+            } else if (this.psi_) {
+                this.psi_.evaluate(time, this.psiValues_)
+                this.hasPsiValues_ = true
+                if (wantsPhi && this.phiTime_ !== time) {
+                    this.setPhiValues(this.psi_.fourierTransform(time, center, this.params.frequencyScale))
+                    this.phiTime_ = time
+                }
+                this.hasPhiValues_ = wantsPhi
             }
         }
 
+        // Helper to copy the given values into our phi buffer
+        private setPhiValues(phi: algorithms.ComplexArray) {
+            this.phiValues_.res.set(phi.res)
+            this.phiValues_.ims.set(phi.ims)
+        }
+
         // Called by the redrawer right before it triggers rerendering
-        // Here we tell our four visualizables to update
+        // Here we advance our propagator if we have one, and tell our visualizables to update
         public prepareForRender(time:number) {
-            this.psiVis_.update(time)
-            this.psiAbsVis_.update(time)
-            this.phiVis_.update(time)
-            this.phiAbsVis_.update(time)
+            this.evaluate(time)
+            const psi = this.psiValues(), phi = this.phiValues()
+            const dx = this.params.maxX / this.params.meshDivision
+
+            this.psiVis_.update(psi)
+            this.phiVis_.update(phi)
+            if (psi && this.psiAbsVis_.visible) magnitudeSquaredInto(psi, this.magnitudeValues_)
+            this.psiAbsVis_.update(psi && this.magnitudeValues_)
+            if (phi && this.phiAbsVis_.visible) magnitudeSquaredInto(phi, this.magnitudeValues_)
+            this.phiAbsVis_.update(phi && this.magnitudeValues_)
+            if (psi && this.currentVis_.visible) probabilityCurrentInto(psi, dx, this.currentValues_)
+            this.currentVis_.update(psi && this.currentValues_)
+            if (this.reference_ && this.referenceVis_.visible) this.reference_.evaluate(time, this.referenceValues_)
+            this.referenceVis_.update(this.reference_ && this.referenceValues_)
         }
     }
 
-    // A Visualizable takes a function to calculate a (complex) value
-    // at a given x position and time, and then plots that in a Line
+    // A Visualizable plots complex values, one per mesh point, in a Line
+    // We show the real part on the y axis, and the imaginary part on the z axis
     class Visualizable {
-        public valueAt: ValueAt = null
         public visible: boolean = true
         private line_: Polyline
 
+        // Coordinate buffers for our line. The x coordinates never change
+        private xs_: Float64Array
+        private ys_: Float64Array
+        private zs_: Float64Array
+
         constructor(private scale: number, private params_: Parameters,
                     group: THREE.Group, material: THREE.LineBasicMaterialParameters) {
-            this.line_ = Polyline.create(this.params_.meshDivision, group, material)
+            const length = this.params_.meshDivision
+            this.line_ = Polyline.create(length, group, material)
+            this.xs_ = new Float64Array(length)
+            this.ys_ = new Float64Array(length)
+            this.zs_ = new Float64Array(length)
+            for (let i = 0; i < length; i++) {
+                this.xs_[i] = this.params_.xCenterForMeshIndex(i)
+            }
         }
 
-        // Entry point for updating our line according to our valueAt function
-        // valueAt produces a complex value. We show the real part on the y axis,
-        // and the imaginary part on the z axis
-        public update(time:number) {
-            if (!this.visible || this.valueAt === null) {
+        // Entry point for updating our line from the given values, or hiding it if there are none
+        // The values are only read if we are visible
+        public update(values: algorithms.ComplexArray) {
+            if (!this.visible || values === null) {
                 this.line_.setVisible(false)
             } else {
                 this.line_.setVisible(true)
-                this.line_.update((index: number) => {
-                    const x = this.params_.xCenterForMeshIndex(index)
-                    const yz = this.valueAt(index, time)
-                    const y = -this.scale * yz.re
-                    const z = this.scale * yz.im
-                    return vector3(x, this.clamp(y), this.clamp(z))
-                })
+                for (let i = 0; i < values.length; i++) {
+                    this.ys_[i] = this.clamp(-this.scale * values.res[i])
+                    this.zs_[i] = this.clamp(this.scale * values.ims[i])
+                }
+                this.line_.updateFromBuffers(this.xs_, this.ys_, this.zs_)
             }
         }
 
@@ -0,0 +1,70 @@
+/// <reference path="./algorithms.ts"/>
+
+// Support for Gaussian wavepackets
+// A wavepacket is decomposed onto the bound states of the potential, so that
+// it can be evolved in time like any other superposition
+
+module algorithms {
+
+    // Parameters of a Gaussian wavepacket
+    // The center and width are fractions of the mesh in the range [0, 1), like potentials
+    // The width is the standard deviation of the position probability |psi|^2
+    // The momentum is in our natural units (hbar = m = 1)
+    export interface WavepacketParameters {
+        center: number
+        momentum: number
+        width: number
+    }
+
+    // Samples a normalized Gaussian wavepacket on a mesh of the given length, separated by dx
+    // This is psi(x) = e^(-(x - x0)^2 / (4 sigma^2)) * e^(i p0 (x - x0))
+    export function gaussianWavepacket(wp: WavepacketParameters, length: number, dx: number): ComplexArray {
+        assert(wp.width > 0, "Wavepacket width must be positive")
+        const x0 = wp.center * length * dx
+        const sigma = wp.width * length * dx
+        let values = ComplexArray.zeros(length)
+        let norm = 0
+        for (let i = 0; i < length; i++) {
+            const offset = i * dx - x0
+            const envelope = Math.exp(-offset * offset / (4 * sigma * sigma))
+            const phase = wp.momentum * offset
+            values.res[i] = envelope * Math.cos(phase)
+            values.ims[i] = envelope * Math.sin(phase)
+            norm += envelope * envelope
+        }
+        const normRecip = 1.0 / Math.sqrt(norm * dx)
+        for (let i = 0; i < length; i++) {
+            values.res[i] *= normRecip
+            values.ims[i] *= normRecip
+        }
+        return values
+    }
+
+    // Projects the given values onto each of the given states
+    // The result for a state psi is the integral of conj(psi) * values over all space
+    // If the states are orthonormal, these are the coefficients of values in that basis
+    export function projectOntoStates(values: ComplexArray, states: TimeIndependentWavefunction[]): Complex[] {
+        return states.map((psi: TimeIndependentWavefunction) => {
+            assert(psi.values.length === values.length, "State has wrong length")
+            let re = 0, im = 0
+            for (let i = 0; i < values.length; i++) {
+                // conj(a + bi) * (c + di) = (ac + bd) + (ad - bc)i
+                const a = psi.values.res[i], b = psi.values.ims[i]
+                const c = values.res[i], d = values.ims[i]
+                re += a * c + b * d
+                im += a * d - b * c
+            }
+            return new Complex(re * psi.dx, im * psi.dx)
+        })
+    }
+
+    // Returns a Wavefunction approximating the given wavepacket as a superposition of the given states
+    // The states should be the bound states of the potential, e.g. from findBoundStates()
+    // The approximation is only as good as the states span the wavepacket; with too few states,
+    // narrow or fast wavepackets lose their high energy components
+    export function wavepacketWavefunction(wp: WavepacketParameters, states: TimeIndependentWavefunction[]): Wavefunction {
+        assert(states.length > 0, "No states for wavepacket")
+        const values = gaussianWavepacket(wp, states[0].values.length, states[0].dx)
+        return new Wavefunction(states, projectOntoStates(values, states))
+    }
+}